@@ -3,12 +3,16 @@ import { BrowserRouter, Routes, Route, Navigate, useLocation } from 'react-route
 import { Layout } from './components/layout/Layout';
 import { AnimatePresence, motion } from 'framer-motion';
 import { SessionProvider } from './contexts/SessionContext';
+import { SnippetProvider } from './contexts/SnippetContext';
 
 // Lazy load pages for performance
 const Chat = lazy(() => import('./pages/Chat').then(m => ({ default: m.Chat })));
 const Persona = lazy(() => import('./pages/Persona').then(m => ({ default: m.Persona })));
 const Settings = lazy(() => import('./pages/Settings').then(m => ({ default: m.Settings })));
 const Todos = lazy(() => import('./pages/Todos').then(m => ({ default: m.Todos })));
+const Snippets = lazy(() => import('./pages/Snippets').then(m => ({ default: m.Snippets })));
+const Feedback = lazy(() => import('./pages/Feedback').then(m => ({ default: m.Feedback })));
+const Workspace = lazy(() => import('./pages/Workspace').then(m => ({ default: m.Workspace })));
 
 // Loading component
 function PageLoader() {
@@ -84,6 +88,30 @@ function AnimatedRoutes() {
               </Suspense>
             }
           />
+          <Route
+            path="snippets"
+            element={
+              <Suspense fallback={<PageLoader />}>
+                <PageTransition><Snippets /></PageTransition>
+              </Suspense>
+            }
+          />
+          <Route
+            path="feedback"
+            element={
+              <Suspense fallback={<PageLoader />}>
+                <PageTransition><Feedback /></PageTransition>
+              </Suspense>
+            }
+          />
+          <Route
+            path="workspace"
+            element={
+              <Suspense fallback={<PageLoader />}>
+                <PageTransition><Workspace /></PageTransition>
+              </Suspense>
+            }
+          />
         </Route>
       </Routes>
     </AnimatePresence>
@@ -94,7 +122,9 @@ function App() {
   return (
     <BrowserRouter>
       <SessionProvider>
-        <AnimatedRoutes />
+        <SnippetProvider>
+          <AnimatedRoutes />
+        </SnippetProvider>
       </SessionProvider>
     </BrowserRouter>
   );
@@ -28,6 +28,7 @@ export function Layout() {
         "h-screen flex flex-col",
         theme === 'dark' ? 'dark' : 'bg-white'
       )}
+      data-color-mode={theme}
       style={{ overflow: 'hidden' }}
     >
       {/* TopBar - always fixed at top */}
@@ -75,6 +76,9 @@ function MobileNav() {
     { path: '/persona', label: 'Persona', icon: 'Persona' },
     { path: '/settings', label: 'Settings', icon: 'Settings' },
     { path: '/todos', label: 'Todos', icon: 'Todos' },
+    { path: '/snippets', label: 'Snippets', icon: 'Snippets' },
+    { path: '/workspace', label: 'Workspace', icon: 'Workspace' },
+    { path: '/feedback', label: 'Feedback', icon: 'Feedback' },
   ];
 
   return (
@@ -1,8 +1,12 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { NavLink, useLocation } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { cn } from '../../lib/utils';
+import { cn, formatDate } from '../../lib/utils';
 import { useSession } from '../../contexts/SessionContext';
+import { usePriceTable } from '../../hooks/usePriceTable';
+import { parseImportFile, type ImportPreview } from '../../lib/sessionImport';
+import { EXPORT_FORMATS, downloadSession, downloadSessionsArchive, type ExportFormat } from '../../lib/sessionExport';
+import { describeUsage, formatCost, formatTokens, summarizeUsage, summaryCost, totalTokens } from '../../lib/usage';
 import { Button } from '../ui/Button';
 
 interface SidebarProps {
@@ -20,13 +24,20 @@ export function Sidebar({ collapsed }: SidebarProps) {
     switchSession,
     deleteSession,
     updateSessionAgent,
+    drafts,
   } = useSession();
+  const prices = usePriceTable();
+  const usageBySession = useMemo(
+    () => new Map(sessions.map(s => [s.id, summarizeUsage(s.tree.nodes, prices)])),
+    [sessions, prices]
+  );
 
   const [isAgentDropdownOpen, setIsAgentDropdownOpen] = useState(false);
   const [isSessionsExpanded, setIsSessionsExpanded] = useState(true);
   
   // Context menu state
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; sessionId: string } | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const contextMenuRef = useRef<HTMLDivElement>(null);
   
   // Agent edit modal state
@@ -90,6 +101,12 @@ export function Sidebar({ collapsed }: SidebarProps) {
     }
   };
 
+  const handleContextMenuExport = (format: ExportFormat) => {
+    const session = sessions.find(s => s.id === contextMenu?.sessionId);
+    if (session) downloadSession(session, format);
+    setContextMenu(null);
+  };
+
   // Agent editing functions
   const handleEditAgent = async (agentId: string, agentName: string) => {
     setIsAgentDropdownOpen(false);
@@ -283,6 +300,24 @@ export function Sidebar({ collapsed }: SidebarProps) {
             <span className="text-xs font-medium text-[#666666] dark:text-[#999999] uppercase tracking-wide">
               Sessions
             </span>
+            <button
+              onClick={() => setIsImportOpen(true)}
+              className="ml-auto mr-1 text-[#666666] dark:text-[#999999] hover:text-[#1A1A1A] dark:hover:text-white transition-colors"
+              title="Import conversations"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+              </svg>
+            </button>
+            <button
+              onClick={() => downloadSessionsArchive(sessions)}
+              className="mr-1 text-[#666666] dark:text-[#999999] hover:text-[#1A1A1A] dark:hover:text-white transition-colors"
+              title="Export all sessions (.zip)"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+              </svg>
+            </button>
             <button
               onClick={() => setIsSessionsExpanded(!isSessionsExpanded)}
               className="text-[#666666] dark:text-[#999999] hover:text-[#1A1A1A] dark:hover:text-white transition-colors"
@@ -323,6 +358,19 @@ export function Sidebar({ collapsed }: SidebarProps) {
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
                         </svg>
                         <span className="flex-1 truncate">{session.name}</span>
+                        {drafts[session.id] && (
+                          <span className="shrink-0 text-[10px] uppercase tracking-wide text-amber-600 dark:text-amber-400" title="Unsent draft">draft</span>
+                        )}
+                        {(() => {
+                          const summary = usageBySession.get(session.id);
+                          if (!summary || totalTokens(summary.usage) === 0) return null;
+                          const cost = summaryCost(summary);
+                          return (
+                            <span className="shrink-0 text-[10px] text-[#999999] tabular-nums" title={describeUsage({ ...summary.usage, model: undefined }, cost)}>
+                              {cost === null ? formatTokens(totalTokens(summary.usage)) : formatCost(cost)}
+                            </span>
+                          );
+                        })()}
                         {sessions.length > 1 && (
                           <span
                             onClick={(e) => handleDeleteSession(e, session.id)}
@@ -354,6 +402,19 @@ export function Sidebar({ collapsed }: SidebarProps) {
               className="fixed bg-white border border-[#E5E5E5] rounded-lg shadow-lg py-1 z-50 min-w-[140px]"
               style={{ left: contextMenu.x, top: contextMenu.y }}
             >
+              {EXPORT_FORMATS.map(format => (
+                <button
+                  key={format.value}
+                  onClick={() => handleContextMenuExport(format.value)}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left text-[#1A1A1A] hover:bg-[#F5F5F5] transition-colors"
+                >
+                  <svg className="w-4 h-4 text-[#666666]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                  </svg>
+                  <span>Export as {format.label}</span>
+                </button>
+              ))}
+              <div className="my-1 border-t border-[#E5E5E5]" />
               <button
                 onClick={handleContextMenuDelete}
                 disabled={sessions.length <= 1}
@@ -371,6 +432,10 @@ export function Sidebar({ collapsed }: SidebarProps) {
           )}
         </AnimatePresence>
 
+        <AnimatePresence>
+          {isImportOpen && <ImportSessionsModal onClose={() => setIsImportOpen(false)} />}
+        </AnimatePresence>
+
         {/* Agent Edit Modal */}
         <AnimatePresence>
           {editingAgent && (
@@ -433,6 +498,9 @@ export function Sidebar({ collapsed }: SidebarProps) {
                 { path: '/chat', label: 'Chat' },
                 { path: '/persona', label: 'Persona' },
                 { path: '/todos', label: 'Todos' },
+                { path: '/snippets', label: 'Snippets' },
+                { path: '/workspace', label: 'Workspace' },
+                { path: '/feedback', label: 'Feedback' },
                 { path: '/settings', label: 'Settings' },
               ].map((item) => (
                 <li key={item.path}>
@@ -458,3 +526,155 @@ export function Sidebar({ collapsed }: SidebarProps) {
     </aside>
   );
 }
+
+// Preview of an import file: pick which conversations to add, see what could not be mapped
+function ImportSessionsModal({ onClose }: { onClose: () => void }) {
+  const { sessions, importSessions } = useSession();
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const [importedCount, setImportedCount] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const existingIds = useMemo(() => new Set(sessions.map(s => s.id)), [sessions]);
+
+  const handleFile = async (file: File) => {
+    try {
+      const parsed = parseImportFile(await file.text());
+      setPreview(parsed);
+      setSelected(new Set(parsed.conversations.map(c => c.session.id).filter(id => !existingIds.has(id))));
+      setError(null);
+      setImportedCount(null);
+    } catch (err) {
+      console.error('Failed to read import file:', err);
+      setPreview(null);
+      setError(err instanceof Error ? err.message : 'Could not read the file');
+    }
+  };
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    if (!preview) return;
+    setImportedCount(importSessions(preview.conversations.filter(c => selected.has(c.session.id)).map(c => c.session)));
+    setSelected(new Set());
+  };
+
+  const importable = preview?.conversations.filter(c => !existingIds.has(c.session.id)) || [];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-[#E5E5E5]">
+          <div>
+            <h2 className="text-lg font-semibold text-[#1A1A1A]">Import Conversations</h2>
+            <p className="text-xs text-[#666666]">nanobot JSON export, or conversations.json from an OpenAI-style export</p>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-[#F5F5F5] rounded-lg transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+          <Button variant="secondary" size="sm" onClick={() => fileInputRef.current?.click()}>
+            {preview ? 'Choose another file' : 'Choose file'}
+          </Button>
+
+          {error && <p className="text-sm text-[#DC2626]">{error}</p>}
+          {importedCount !== null && (
+            <p className="text-sm text-green-600">Imported {importedCount} conversation{importedCount === 1 ? '' : 's'}</p>
+          )}
+
+          {preview && (
+            <>
+              {preview.errors.length > 0 && (
+                <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-xs text-[#DC2626] space-y-1">
+                  <p className="font-medium">Could not import:</p>
+                  {preview.errors.map((message, i) => <p key={i}>{message}</p>)}
+                </div>
+              )}
+              {preview.conversations.length > 0 && (
+                <div className="flex items-center justify-between text-xs text-[#666666]">
+                  <span>{preview.conversations.length} conversation{preview.conversations.length === 1 ? '' : 's'} found</span>
+                  <button
+                    onClick={() => setSelected(selected.size === importable.length ? new Set() : new Set(importable.map(c => c.session.id)))}
+                    className="hover:text-[#1A1A1A]"
+                  >
+                    {selected.size === importable.length ? 'Select none' : 'Select all'}
+                  </button>
+                </div>
+              )}
+              <ul className="space-y-1">
+                {preview.conversations.map(({ session, source, warnings }) => {
+                  const duplicate = existingIds.has(session.id);
+                  return (
+                    <li key={session.id}>
+                      <label className={cn('flex items-start gap-3 p-2 rounded-lg border border-[#E5E5E5]', duplicate ? 'opacity-50' : 'cursor-pointer hover:bg-[#FAFAFA]')}>
+                        <input
+                          type="checkbox"
+                          checked={selected.has(session.id)}
+                          disabled={duplicate}
+                          onChange={() => toggle(session.id)}
+                          className="mt-1"
+                        />
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm font-medium text-[#1A1A1A] truncate">{session.name}</span>
+                            <span className="shrink-0 text-[10px] uppercase tracking-wide text-[#999999]">{source}</span>
+                          </div>
+                          <p className="text-xs text-[#666666]">
+                            {session.tree.nodes.length} message{session.tree.nodes.length === 1 ? '' : 's'} · {formatDate(session.updatedAt)}
+                            {duplicate && ' · already imported'}
+                          </p>
+                          {warnings.map((warning, i) => <p key={i} className="text-xs text-amber-600">{warning}</p>)}
+                        </div>
+                      </label>
+                    </li>
+                  );
+                })}
+              </ul>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-[#E5E5E5]">
+          <Button variant="secondary" onClick={onClose}>{importedCount !== null ? 'Done' : 'Cancel'}</Button>
+          <Button onClick={handleImport} disabled={selected.size === 0}>
+            Import{selected.size > 0 && ` ${selected.size}`}
+          </Button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,34 @@
+import { memo } from 'react';
+import MDEditor from '@uiw/react-md-editor';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import { cn } from '../../lib/utils';
+
+// GitHub-style sanitizing, plus the heading anchors and code copy buttons the preview injects
+const SANITIZE_SCHEMA = {
+  ...defaultSchema,
+  tagNames: [...(defaultSchema.tagNames || []), 'svg', 'path'],
+  attributes: {
+    ...defaultSchema.attributes,
+    a: [...(defaultSchema.attributes?.a || []), ['class', 'anchor'], 'ariaHidden', 'tabIndex'],
+    div: [...(defaultSchema.attributes?.div || []), ['class', 'copied'], 'data*'],
+    svg: [['className', 'octicon', 'octicon-link', 'octicon-copy', 'octicon-check'], 'ariaHidden', 'viewBox', 'fill', 'height', 'width'],
+    path: ['fillRule', 'd'],
+  },
+};
+
+export interface MarkdownProps {
+  source: string;
+  className?: string;
+}
+
+const Markdown = memo(function Markdown({ source, className }: MarkdownProps) {
+  return (
+    <MDEditor.Markdown
+      source={source}
+      rehypePlugins={[[rehypeSanitize, SANITIZE_SCHEMA]]}
+      className={cn('chat-markdown', className)}
+    />
+  );
+});
+
+export { Markdown };
@@ -1,15 +1,30 @@
-import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from 'react';
-import type { Message } from '../types/chat';
+import { createContext, useContext, useState, useEffect, useCallback, useRef, type ReactNode } from 'react';
+import type { Attachment, Message, MessageQuote, MessageTree, PendingMessage } from '../types/chat';
+import { appendMessage, createMessageTree, removeLeaf, selectBranch, treeFromMessages, updateNode } from '../lib/messageTree';
+import { addToOutbox, deliverPendingMessage } from '../lib/outbox';
+import { BackendUnreachableError } from '../lib/chatStream';
+import { deleteAttachmentFiles, getAttachmentFile } from '../lib/attachmentStore';
+import { useBackendStatus } from '../hooks/useBackendStatus';
 
 export interface Session {
   id: string;
   name: string;
   agentId: string;
-  messages: Message[];
+  tree: MessageTree; // all branches of the conversation; use getThread() for the visible one
+  outbox?: PendingMessage[]; // user messages waiting for the backend, oldest first
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Unsent composer content of a session; attachment files live in lib/attachmentStore
+export interface SessionDraft {
+  text: string;
+  attachments: Attachment[];
+  quote?: MessageQuote;
+}
+
+const EMPTY_DRAFT: SessionDraft = { text: '', attachments: [] };
+
 export interface Agent {
   id: string;
   name: string;
@@ -37,6 +52,7 @@ const DEFAULT_MULTI_AGENT_SETTINGS: MultiAgentSettings = {
 
 const STORAGE_KEY = 'nanobot-sessions';
 const ACTIVE_SESSION_KEY = 'nanobot-active-session-id';
+const DRAFTS_KEY = 'nanobot-drafts';
 
 // Backend API helpers
 async function clearBackendSession(sessionId: string) {
@@ -61,25 +77,31 @@ function createEmptySession(agentId: string = 'default'): Session {
     id: generateId(),
     name: 'New conversation',
     agentId,
-    messages: [],
+    tree: createMessageTree(),
     createdAt: now,
     updatedAt: now,
   };
 }
 
+function reviveMessage(msg: Message): Message {
+  return { ...msg, timestamp: new Date(msg.timestamp) };
+}
+
+// Sessions saved before branching stored a flat `messages` array
+type StoredSession = Omit<Session, 'tree'> & { tree?: MessageTree; messages?: Message[] };
+
 function loadSessions(): Session[] {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
     if (stored) {
-      const parsed = JSON.parse(stored);
-      return parsed.map((session: Session) => ({
+      const parsed: StoredSession[] = JSON.parse(stored);
+      return parsed.map(({ messages, tree, ...session }) => ({
         ...session,
         createdAt: new Date(session.createdAt),
         updatedAt: new Date(session.updatedAt),
-        messages: session.messages?.map((msg: Message) => ({
-          ...msg,
-          timestamp: new Date(msg.timestamp),
-        })) || [],
+        tree: tree
+          ? { ...tree, nodes: tree.nodes.map(reviveMessage) }
+          : treeFromMessages((messages || []).map(reviveMessage)),
       }));
     }
   } catch (error) {
@@ -96,6 +118,24 @@ function saveSessions(sessions: Session[]): void {
   }
 }
 
+function loadDrafts(): Record<string, SessionDraft> {
+  try {
+    const stored = localStorage.getItem(DRAFTS_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch (error) {
+    console.error('Failed to load drafts:', error);
+  }
+  return {};
+}
+
+function saveDrafts(drafts: Record<string, SessionDraft>): void {
+  try {
+    localStorage.setItem(DRAFTS_KEY, JSON.stringify(drafts));
+  } catch (error) {
+    console.error('Failed to save drafts:', error);
+  }
+}
+
 interface SessionContextValue {
   sessions: Session[];
   activeSession: Session | null;
@@ -108,7 +148,20 @@ interface SessionContextValue {
   updateSessionAgent: (sessionId: string, agentId: string) => void;
   addMessageToSession: (sessionId: string, message: Message) => void;
   setSessionMessages: (sessionId: string, messages: Message[]) => void;
+  selectMessageBranch: (sessionId: string, messageId: string) => void;
+  updateMessage: (sessionId: string, messageId: string, patch: Partial<Message>) => void;
+  removeMessage: (sessionId: string, messageId: string) => void;
+  queueMessage: (sessionId: string, message: PendingMessage) => void;
+  updatePendingMessage: (sessionId: string, messageId: string, patch: Partial<PendingMessage>) => void;
+  removePendingMessage: (sessionId: string, messageId: string) => void;
+  sendingMessageIds: string[]; // outbox messages being delivered right now
+  isBackendReachable: boolean;
+  markBackendUnreachable: () => void;
+  checkBackend: () => Promise<boolean>;
   clearSessionMessages: (sessionId: string) => void;
+  importSessions: (imported: Session[]) => number;
+  drafts: Record<string, SessionDraft>;
+  updateSessionDraft: (sessionId: string, update: (draft: SessionDraft) => SessionDraft) => void;
   setMultiAgentEnabled: (enabled: boolean) => void;
   setMultiAgentSelected: (agentIds: string[]) => void;
 }
@@ -120,6 +173,10 @@ export function SessionProvider({ children }: { children: ReactNode }) {
   const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
   const [availableAgents, setAvailableAgents] = useState<Agent[]>(DEFAULT_AGENTS);
   const [multiAgentSettings, setMultiAgentSettings] = useState<MultiAgentSettings>(DEFAULT_MULTI_AGENT_SETTINGS);
+  const [drafts, setDrafts] = useState<Record<string, SessionDraft>>(loadDrafts);
+  const { isReachable: isBackendReachable, markUnreachable: markBackendUnreachable, check: checkBackend } = useBackendStatus();
+  const [sendingMessageIds, setSendingMessageIds] = useState<string[]>([]);
+  const deliveringRef = useRef(new Set<string>()); // sessions with an outbox delivery in flight
 
   // Load multi-agent settings from localStorage
   useEffect(() => {
@@ -182,6 +239,11 @@ export function SessionProvider({ children }: { children: ReactNode }) {
     }
   }, [sessions]);
 
+  // Save drafts whenever they change
+  useEffect(() => {
+    saveDrafts(drafts);
+  }, [drafts]);
+
   const activeSession = sessions.find(s => s.id === activeSessionId) || null;
 
   const createSession = useCallback((agentId: string = 'default') => {
@@ -212,6 +274,19 @@ export function SessionProvider({ children }: { children: ReactNode }) {
   const deleteSession = useCallback((sessionId: string) => {
     // Delete session from backend
     clearBackendSession(sessionId);
+
+    const session = sessions.find(s => s.id === sessionId);
+    const files = session ? [...session.tree.nodes, ...(session.outbox || [])].flatMap(m => m.attachments || []) : [];
+    if (files.length > 0) deleteAttachmentFiles(files.map(a => a.id));
+
+    if (drafts[sessionId]) {
+      deleteAttachmentFiles(drafts[sessionId].attachments.map(a => a.id));
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[sessionId];
+        return next;
+      });
+    }
     
     setSessions(prev => {
       const filtered = prev.filter(s => s.id !== sessionId);
@@ -228,7 +303,7 @@ export function SessionProvider({ children }: { children: ReactNode }) {
       }
       return filtered;
     });
-  }, [activeSessionId]);
+  }, [activeSessionId, drafts, sessions]);
 
   const updateSessionName = useCallback((sessionId: string, name: string) => {
     setSessions(prev => prev.map(s => 
@@ -246,18 +321,20 @@ export function SessionProvider({ children }: { children: ReactNode }) {
     ));
   }, []);
 
+  // Appends to the selected branch, or branches off `message.parentId` when it is set
   const addMessageToSession = useCallback((sessionId: string, message: Message) => {
     setSessions(prev => prev.map(s => {
       if (s.id === sessionId) {
         // Auto-generate name from first user message
         let name = s.name;
-        if (s.messages.length === 0 && message.role === 'user') {
-          name = message.content.slice(0, 30) + (message.content.length > 30 ? '...' : '');
+        const title = message.content || message.attachments?.[0]?.name || '';
+        if (s.tree.nodes.length === 0 && message.role === 'user' && title) {
+          name = title.slice(0, 30) + (title.length > 30 ? '...' : '');
         }
         return {
           ...s,
           name,
-          messages: [...s.messages, message],
+          tree: appendMessage(s.tree, message),
           updatedAt: new Date(),
         };
       }
@@ -268,17 +345,121 @@ export function SessionProvider({ children }: { children: ReactNode }) {
   const setSessionMessages = useCallback((sessionId: string, messages: Message[]) => {
     setSessions(prev => prev.map(s => 
       s.id === sessionId 
-        ? { ...s, messages, updatedAt: new Date() }
+        ? { ...s, tree: treeFromMessages(messages), updatedAt: new Date() }
+        : s
+    ));
+  }, []);
+
+  const selectMessageBranch = useCallback((sessionId: string, messageId: string) => {
+    setSessions(prev => prev.map(s => 
+      s.id === sessionId 
+        ? { ...s, tree: selectBranch(s.tree, messageId) }
+        : s
+    ));
+  }, []);
+
+  // Annotations such as bookmarks; the conversation itself (content, order) stays as it was
+  const updateMessage = useCallback((sessionId: string, messageId: string, patch: Partial<Message>) => {
+    setSessions(prev => prev.map(s => 
+      s.id === sessionId 
+        ? { ...s, tree: updateNode(s.tree, messageId, patch) }
         : s
     ));
   }, []);
 
+  // Only messages without replies, e.g. a prompt that never reached the backend
+  const removeMessage = useCallback((sessionId: string, messageId: string) => {
+    setSessions(prev => prev.map(s => 
+      s.id === sessionId 
+        ? { ...s, tree: removeLeaf(s.tree, messageId) }
+        : s
+    ));
+  }, []);
+
+  const queueMessage = useCallback((sessionId: string, message: PendingMessage) => {
+    setSessions(prev => prev.map(s => 
+      s.id === sessionId 
+        ? { ...s, outbox: addToOutbox(s.outbox || [], message), updatedAt: new Date() }
+        : s
+    ));
+  }, []);
+
+  const updatePendingMessage = useCallback((sessionId: string, messageId: string, patch: Partial<PendingMessage>) => {
+    setSessions(prev => prev.map(s => 
+      s.id === sessionId 
+        ? { ...s, outbox: (s.outbox || []).map(m => (m.id === messageId ? { ...m, ...patch } : m)) }
+        : s
+    ));
+  }, []);
+
+  const removePendingMessage = useCallback((sessionId: string, messageId: string) => {
+    setSessions(prev => prev.map(s => 
+      s.id === sessionId 
+        ? { ...s, outbox: (s.outbox || []).filter(m => m.id !== messageId) }
+        : s
+    ));
+  }, []);
+
+  // Deliver every session's outbox, oldest first within a session, whenever the backend is reachable.
+  // A message stays queued (and can't be edited) until its answer is in, so new prompts line up behind it.
+  // One that failed for another reason keeps its error and holds the queue until it is retried or discarded.
+  useEffect(() => {
+    if (!isBackendReachable) return;
+    for (const session of sessions) {
+      const pending = session.outbox?.[0];
+      if (!pending || pending.error || deliveringRef.current.has(session.id)) continue;
+      deliveringRef.current.add(session.id);
+      setSendingMessageIds(prev => [...prev, pending.id]);
+      (async () => {
+        try {
+          const stored = await Promise.all((pending.attachments || []).map(a => getAttachmentFile(a.id)));
+          const files = stored.filter((file): file is File => file !== undefined);
+          if (files.length < stored.length) throw new Error('An attached file is no longer stored');
+          const { prompt, answer } = await deliverPendingMessage(session, pending, files);
+          deliveringRef.current.delete(session.id);
+          removePendingMessage(session.id, pending.id);
+          addMessageToSession(session.id, prompt);
+          addMessageToSession(session.id, answer);
+        } catch (error) {
+          deliveringRef.current.delete(session.id);
+          if (error instanceof BackendUnreachableError) markBackendUnreachable();
+          else updatePendingMessage(session.id, pending.id, { error: error instanceof Error ? error.message : String(error) });
+        } finally {
+          setSendingMessageIds(prev => prev.filter(id => id !== pending.id));
+        }
+      })();
+    }
+  }, [sessions, isBackendReachable, updatePendingMessage, removePendingMessage, addMessageToSession, markBackendUnreachable]);
+
   const clearSessionMessages = useCallback((sessionId: string) => {
+    const files = sessions.find(s => s.id === sessionId)?.tree.nodes.flatMap(m => m.attachments || []) || [];
+    if (files.length > 0) deleteAttachmentFiles(files.map(a => a.id));
     setSessions(prev => prev.map(s => 
       s.id === sessionId 
-        ? { ...s, messages: [], updatedAt: new Date() }
+        ? { ...s, tree: createMessageTree(), updatedAt: new Date() }
         : s
     ));
+  }, [sessions]);
+
+  // Adds sessions whose id isn't taken yet, newest first; returns how many were added
+  const importSessions = useCallback((imported: Session[]) => {
+    const existing = new Set(sessions.map(s => s.id));
+    const added = imported
+      .filter(s => !existing.has(s.id))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    if (added.length > 0) setSessions(prev => [...added, ...prev]);
+    return added.length;
+  }, [sessions]);
+
+  // An updated draft without text or attachments is dropped
+  const updateSessionDraft = useCallback((sessionId: string, update: (draft: SessionDraft) => SessionDraft) => {
+    setDrafts(prev => {
+      const draft = update(prev[sessionId] || EMPTY_DRAFT);
+      const next = { ...prev };
+      if (draft.text || draft.attachments.length > 0 || draft.quote) next[sessionId] = draft;
+      else delete next[sessionId];
+      return next;
+    });
   }, []);
 
   const setMultiAgentEnabled = useCallback((enabled: boolean) => {
@@ -302,7 +483,20 @@ export function SessionProvider({ children }: { children: ReactNode }) {
       updateSessionAgent,
       addMessageToSession,
       setSessionMessages,
+      selectMessageBranch,
+      updateMessage,
+      removeMessage,
+      queueMessage,
+      updatePendingMessage,
+      removePendingMessage,
+      sendingMessageIds,
+      isBackendReachable,
+      markBackendUnreachable,
+      checkBackend,
       clearSessionMessages,
+      importSessions,
+      drafts,
+      updateSessionDraft,
       setMultiAgentEnabled,
       setMultiAgentSelected,
     }}>
@@ -0,0 +1,110 @@
+import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from 'react';
+import { parseSnippetFile, serializeSnippets, type Snippet } from '../lib/snippets';
+
+const STORAGE_KEY = 'nanobot-snippets';
+
+function generateId(): string {
+  return `snippet_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+function loadSnippets(): Snippet[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed: Snippet[] = JSON.parse(stored);
+      return parsed.map(snippet => ({
+        ...snippet,
+        createdAt: new Date(snippet.createdAt),
+        updatedAt: new Date(snippet.updatedAt),
+      }));
+    }
+  } catch (error) {
+    console.error('Failed to load snippets:', error);
+  }
+  return [];
+}
+
+function saveSnippets(snippets: Snippet[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(snippets));
+  } catch (error) {
+    console.error('Failed to save snippets:', error);
+  }
+}
+
+export type SnippetInput = Pick<Snippet, 'name' | 'content' | 'tags'>;
+
+export interface SnippetImportResult {
+  added: number;
+  skipped: number; // same name and content as an existing snippet
+}
+
+interface SnippetContextValue {
+  snippets: Snippet[];
+  createSnippet: (input: SnippetInput) => Snippet;
+  updateSnippet: (id: string, input: SnippetInput) => void;
+  deleteSnippet: (id: string) => void;
+  importSnippets: (json: string) => SnippetImportResult;
+  exportSnippets: () => string;
+}
+
+const SnippetContext = createContext<SnippetContextValue | null>(null);
+
+export function SnippetProvider({ children }: { children: ReactNode }) {
+  const [snippets, setSnippets] = useState<Snippet[]>(loadSnippets);
+
+  // Save snippets whenever they change
+  useEffect(() => {
+    saveSnippets(snippets);
+  }, [snippets]);
+
+  const createSnippet = useCallback((input: SnippetInput) => {
+    const now = new Date();
+    const snippet: Snippet = { ...input, id: generateId(), createdAt: now, updatedAt: now };
+    setSnippets(prev => [snippet, ...prev]);
+    return snippet;
+  }, []);
+
+  const updateSnippet = useCallback((id: string, input: SnippetInput) => {
+    setSnippets(prev => prev.map(s => (s.id === id ? { ...s, ...input, updatedAt: new Date() } : s)));
+  }, []);
+
+  const deleteSnippet = useCallback((id: string) => {
+    setSnippets(prev => prev.filter(s => s.id !== id));
+  }, []);
+
+  const importSnippets = useCallback((json: string) => {
+    const incoming = parseSnippetFile(json);
+    const isDuplicate = (a: Snippet, b: Snippet) => a.name === b.name && a.content === b.content;
+    const fresh = incoming.filter((snippet, i) =>
+      !snippets.some(existing => isDuplicate(existing, snippet)) &&
+      incoming.findIndex(other => isDuplicate(other, snippet)) === i
+    );
+    // Imported ids may clash with local ones, so every imported snippet gets a new id
+    setSnippets(prev => [...fresh.map(snippet => ({ ...snippet, id: generateId() })), ...prev]);
+    return { added: fresh.length, skipped: incoming.length - fresh.length };
+  }, [snippets]);
+
+  const exportSnippets = useCallback(() => serializeSnippets(snippets), [snippets]);
+
+  return (
+    <SnippetContext.Provider value={{
+      snippets,
+      createSnippet,
+      updateSnippet,
+      deleteSnippet,
+      importSnippets,
+      exportSnippets,
+    }}>
+      {children}
+    </SnippetContext.Provider>
+  );
+}
+
+export function useSnippets() {
+  const context = useContext(SnippetContext);
+  if (!context) {
+    throw new Error('useSnippets must be used within a SnippetProvider');
+  }
+  return context;
+}
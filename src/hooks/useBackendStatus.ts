@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useState } from 'react';
+import { PROBE_INTERVAL_MS, probeBackend } from '../lib/outbox';
+
+/**
+ * Whether chat requests can reach the backend. Once a request finds it unreachable
+ * (`markUnreachable`), it is probed on `online` events and every few seconds until it answers.
+ */
+export function useBackendStatus() {
+  const [isReachable, setIsReachable] = useState(() => navigator.onLine);
+
+  const markUnreachable = useCallback(() => setIsReachable(false), []);
+
+  const check = useCallback(async () => {
+    const reachable = await probeBackend();
+    setIsReachable(reachable);
+    return reachable;
+  }, []);
+
+  useEffect(() => {
+    if (isReachable) {
+      window.addEventListener('offline', markUnreachable);
+      return () => window.removeEventListener('offline', markUnreachable);
+    }
+    const timer = setInterval(check, PROBE_INTERVAL_MS);
+    window.addEventListener('online', check);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', check);
+    };
+  }, [isReachable, check, markUnreachable]);
+
+  return { isReachable, markUnreachable, check };
+}
@@ -1,5 +1,6 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import type { Message, ProgressStep } from '../types/chat';
+import { streamChat, upsertProgressStep } from '../lib/chatStream';
 
 const STORAGE_KEY = 'nanobot-chat-history';
 const SESSION_ID_KEY = 'nanobot-session-id';
@@ -168,122 +169,59 @@ export function useChat() {
 
     try {
       // Try streaming first
-      const res = await fetch('/api/chat/stream', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message: content.trim(), sessionId })
-      });
-
-      if (!res.ok) {
-        throw new Error(`API error: ${res.status}`);
-      }
-
-      // Handle streaming response
-      if (res.body) {
-        setIsStreaming(true);
-        const reader = res.body.getReader();
-        const decoder = new TextDecoder();
-        let buffer = '';
-        let currentEventType = 'message';
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          
-          // Parse SSE events from buffer - handle multi-line events
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-
-          for (const line of lines) {
-            if (!line.trim() || line.startsWith(':')) continue;
-            
-            // Track event type (can appear before data)
-            if (line.startsWith('event:')) {
-              currentEventType = line.slice(6).trim();
-              continue;
-            }
-            
-            // Parse data
-            if (line.startsWith('data:')) {
-              const dataContent = line.slice(5).trim();
-              try {
-                const data = JSON.parse(dataContent);
-                
-                switch (currentEventType) {
-                  case 'thinking':
-                    setIsThinking(data.status === 'starting' || data.status === 'queued');
-                    break;
-                  case 'progress':
-                    // Handle rich progress event with tool, file, action, status
-                    if (data.tool || data.file || data.action) {
-                      setProgressSteps(prev => {
-                        // Update existing or add new
-                        const newStep: ProgressStep = {
-                          tool: data.tool,
-                          file: data.file,
-                          action: data.action,
-                          status: data.status || 'running',
-                          content: data.content
-                        };
-                        // If we have a similar step, update it
-                        const existingIndex = prev.findIndex(
-                          s => s.tool === data.tool && s.file === data.file
-                        );
-                        if (existingIndex >= 0) {
-                          const updated = [...prev];
-                          updated[existingIndex] = newStep;
-                          return updated;
-                        }
-                        return [...prev, newStep];
-                      });
-                    }
-                    streamingContentRef.current += data.content;
-                    setStreamingContent(streamingContentRef.current);
-                    break;
-                  case 'message':
-                    // Final message - will be handled after stream ends
-                    break;
-                  case 'error':
-                    console.error('Stream error:', data.content);
-                    break;
-                }
-              } catch {
-                // Not JSON, treat as plain text progress
-                streamingContentRef.current += dataContent;
-                setStreamingContent(streamingContentRef.current);
+      setIsStreaming(true);
+      await streamChat({ message: content.trim(), sessionId }, {
+        onEvent: (event) => {
+          switch (event.type) {
+            case 'thinking':
+              setIsThinking(event.status === 'starting' || event.status === 'queued');
+              break;
+            case 'progress': {
+              // Handle rich progress event with tool, file, action, status
+              const { step } = event;
+              if (step) {
+                setProgressSteps(prev => upsertProgressStep(prev, step));
               }
-              // Reset event type after processing
-              currentEventType = 'message';
+              streamingContentRef.current += event.content;
+              setStreamingContent(streamingContentRef.current);
+              break;
             }
+            case 'text':
+              // Not JSON, treat as plain text progress
+              streamingContentRef.current += event.content;
+              setStreamingContent(streamingContentRef.current);
+              break;
+            case 'message':
+              // Final message - will be handled after stream ends
+              break;
+            case 'error':
+              console.error('Stream error:', event.content);
+              break;
           }
-        }
-
-        setIsStreaming(false);
-        setIsThinking(false);
+        },
+      });
 
-        // Create assistant message from streaming content
-        const assistantMessage: Message = {
-          id: `msg-${Date.now() + 1}`,
-          role: 'assistant',
-          content: streamingContentRef.current || 'No response',
-          timestamp: new Date(),
-        };
+      setIsStreaming(false);
+      setIsThinking(false);
 
-        // Use functional update to append assistant message
-        setMessages(prev => {
-          const finalMessages = [...prev, assistantMessage];
-          saveMessages(finalMessages);
-          return finalMessages;
-        });
-        setStreamingContent('');
-        setShowSummary(true);
-        // Auto-hide after 3 seconds
-        setTimeout(() => setShowSummary(false), 3000);
-      } else {
-        throw new Error('No response body');
-      }
+      // Create assistant message from streaming content
+      const assistantMessage: Message = {
+        id: `msg-${Date.now() + 1}`,
+        role: 'assistant',
+        content: streamingContentRef.current || 'No response',
+        timestamp: new Date(),
+      };
+
+      // Use functional update to append assistant message
+      setMessages(prev => {
+        const finalMessages = [...prev, assistantMessage];
+        saveMessages(finalMessages);
+        return finalMessages;
+      });
+      setStreamingContent('');
+      setShowSummary(true);
+      // Auto-hide after 3 seconds
+      setTimeout(() => setShowSummary(false), 3000);
     } catch (error) {
       console.error('Streaming failed, falling back to regular API:', error);
       
@@ -0,0 +1,15 @@
+import { useMemo } from 'react';
+import { useSession } from '../contexts/SessionContext';
+import { createSearchIndex, searchMessages, syncSearchIndex, type SearchFilters, type SearchResultGroup } from '../lib/searchIndex';
+
+// One index for the app's lifetime, so reopening search only indexes what changed since
+const sharedIndex = createSearchIndex();
+
+/** Search every session's messages and tool calls. Pass memoized filters. */
+export function useMessageSearch(query: string, filters: SearchFilters): SearchResultGroup[] {
+  const { sessions } = useSession();
+  return useMemo(() => {
+    syncSearchIndex(sharedIndex, sessions);
+    return searchMessages(sharedIndex, query, filters);
+  }, [sessions, query, filters]);
+}
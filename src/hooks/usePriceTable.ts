@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getPriceTable, subscribePriceTable, type ModelPrice } from '../lib/usage';
+
+/** The configured price table, kept current when Settings are saved. */
+export function usePriceTable(): ModelPrice[] {
+  return useSyncExternalStore(subscribePriceTable, getPriceTable);
+}
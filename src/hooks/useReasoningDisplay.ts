@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getReasoningDisplay, subscribeReasoningDisplay, type ReasoningDisplay } from '../lib/reasoning';
+
+/** How to show reasoning on answers, kept current when Settings are saved. */
+export function useReasoningDisplay(): ReasoningDisplay {
+  return useSyncExternalStore(subscribeReasoningDisplay, getReasoningDisplay);
+}
@@ -0,0 +1,12 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { getSlashCommands, registerSlashCommands, subscribeSlashCommands, type SlashCommand } from '../lib/slashCommands';
+
+/** All slash commands currently registered. */
+export function useSlashCommands(): SlashCommand[] {
+  return useSyncExternalStore(subscribeSlashCommands, getSlashCommands);
+}
+
+/** Register commands while the calling component is mounted. Pass a memoized array. */
+export function useRegisterSlashCommands(commands: SlashCommand[]) {
+  useEffect(() => registerSlashCommands(commands), [commands]);
+}
@@ -0,0 +1,60 @@
+// IndexedDB store for the files behind attachments, so drafts and the outbox survive reloads and sent
+// messages can be edited and resent with their files. Files go with their session (or draft, or outbox entry).
+// localStorage only keeps the attachment metadata; failures here are logged and treated as a miss.
+
+const DB_NAME = 'nanobot-attachments';
+const STORE_NAME = 'files';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function putAttachmentFile(id: string, file: File): Promise<void> {
+  try {
+    await withStore('readwrite', store => store.put(file, id));
+  } catch (error) {
+    console.warn('Failed to store attachment file:', error);
+  }
+}
+
+export async function getAttachmentFile(id: string): Promise<File | undefined> {
+  try {
+    const file = await withStore<File>('readonly', store => store.get(id));
+    return file instanceof File ? file : undefined;
+  } catch (error) {
+    console.warn('Failed to read attachment file:', error);
+    return undefined;
+  }
+}
+
+export async function deleteAttachmentFiles(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  try {
+    await withStore('readwrite', store => ids.forEach(id => store.delete(id)));
+  } catch (error) {
+    console.warn('Failed to delete attachment files:', error);
+  }
+}
@@ -0,0 +1,54 @@
+import type { Attachment } from '../types/chat';
+import { generateId } from './utils';
+
+// Attachment picked in the composer; `file` is uploaded, `attachment` is what the session keeps
+export interface PendingAttachment {
+  attachment: Attachment;
+  file: File;
+}
+
+const THUMBNAIL_SIZE = 160;
+
+/** Downscaled JPEG data URL of an image file, small enough to store with the session. */
+async function createThumbnail(file: File): Promise<string | undefined> {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch (error) {
+    console.warn('Failed to create thumbnail:', error);
+    return undefined;
+  }
+}
+
+export async function toPendingAttachment(file: File): Promise<PendingAttachment> {
+  const mimeType = file.type || 'application/octet-stream';
+  return {
+    file,
+    attachment: {
+      id: `att-${Date.now()}-${generateId()}`,
+      name: file.name || 'pasted-file',
+      mimeType,
+      size: file.size,
+      thumbnail: isImage(mimeType) ? await createThumbnail(file) : undefined,
+    },
+  };
+}
+
+export function isImage(mimeType: string): boolean {
+  return mimeType.startsWith('image/');
+}
+
+/** Files carried by a drop or paste event; plain text drops/pastes yield none. */
+export function filesFromDataTransfer(data: DataTransfer | null): File[] {
+  if (!data) return [];
+  return Array.from(data.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.getAsFile())
+    .filter((file): file is File => file !== null);
+}
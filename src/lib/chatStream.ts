@@ -0,0 +1,425 @@
+import type { ApprovalRequest, ChatStreamEvent, ChatStreamEventType, FileDiff, Message, MessageQuote, ProgressStep, TokenUsage } from '../types/chat';
+
+// Raw Server-Sent Event as described by the WHATWG EventSource spec
+export interface SSEMessage {
+  event: string;
+  data: string;
+  id?: string;
+  retry?: number;
+}
+
+export interface ChatHistoryEntry {
+  role: Message['role'];
+  content: string;
+}
+
+export interface ChatStreamRequest {
+  message: string;
+  sessionId: string;
+  agentId?: string;
+  agentIds?: string[];
+  history?: ChatHistoryEntry[]; // prior turns of the selected branch, oldest first
+  quotedMessageId?: string; // message the prompt replies to
+  quotedExcerpt?: string; // the part of it being asked about
+  files?: File[]; // sent as multipart/form-data when present
+}
+
+export type ConnectionStatus = 'connected' | 'reconnecting';
+
+export interface ChatStreamOptions {
+  signal?: AbortSignal;
+  /** Reconnect attempts after the connection drops mid-response. Only used when the server sends event ids. */
+  maxRetries?: number;
+  onConnectionChange?: (status: ConnectionStatus) => void;
+}
+
+export interface StreamChatOptions extends ChatStreamOptions {
+  onEvent: (event: ChatStreamEvent) => void;
+}
+
+const STREAM_ENDPOINT = '/api/chat/stream';
+const DEFAULT_RETRY_MS = 1000;
+const DEFAULT_MAX_RETRIES = 5;
+
+// Events after which the server is done with the response; EOF before one of these means a dropped connection
+const TERMINAL_EVENTS = new Set<ChatStreamEventType>(['message', 'done', 'all_done', 'error']);
+
+// Gateway errors: nanobot itself is not answering. The dev proxy (vite.config.ts) sends 502 when it can't
+// reach the backend; a reverse proxy in front of nanobot sends one of these too
+const UNREACHABLE_STATUSES = new Set([502, 503, 504]);
+
+/** Thrown when the request never reached the backend (network down, backend not running). */
+export class BackendUnreachableError extends Error {
+  constructor(message = 'Backend unreachable') {
+    super(message);
+    this.name = 'BackendUnreachableError';
+  }
+}
+
+/** `fetch` that reports a missing network or backend as {@link BackendUnreachableError}. */
+export async function fetchBackend(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  let res: Response;
+  try {
+    res = await fetch(input, init);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new BackendUnreachableError(error instanceof Error ? error.message : undefined);
+  }
+  if (UNREACHABLE_STATUSES.has(res.status)) throw new BackendUnreachableError(`API error: ${res.status}`);
+  return res;
+}
+
+/** Thrown when a dropped stream could not be resumed; events received so far are still valid. */
+export class StreamInterruptedError extends Error {
+  constructor(message = 'Stream connection lost') {
+    super(message);
+    this.name = 'StreamInterruptedError';
+  }
+}
+
+/**
+ * Parse an SSE byte stream into messages. Supports multi-line `data:` fields,
+ * `id:` (carried over to later events, like EventSource's lastEventId) and `retry:`.
+ */
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let eventType = '';
+  let dataLines: string[] = [];
+  let lastEventId: string | undefined;
+  let retry: number | undefined;
+
+  const dispatch = (): SSEMessage | null => {
+    const message = dataLines.length > 0
+      ? { event: eventType || 'message', data: dataLines.join('\n'), id: lastEventId, retry }
+      : null;
+    eventType = '';
+    dataLines = [];
+    retry = undefined;
+    return message;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop() || '';
+
+      for (const rawLine of lines) {
+        const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+        if (line === '') {
+          const message = dispatch();
+          if (message) yield message;
+          continue;
+        }
+        if (line.startsWith(':')) continue;
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let value = colon === -1 ? '' : line.slice(colon + 1);
+        if (value.startsWith(' ')) value = value.slice(1);
+
+        switch (field) {
+          case 'event':
+            eventType = value;
+            break;
+          case 'data':
+            dataLines.push(value);
+            break;
+          case 'id':
+            if (!value.includes('\0')) lastEventId = value;
+            break;
+          case 'retry':
+            if (/^\d+$/.test(value)) retry = Number(value);
+            break;
+        }
+      }
+
+      if (done) break;
+    }
+
+    // Be lenient with servers that close without a trailing blank line
+    const message = dispatch();
+    if (message) yield message;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// `diff` is a unified patch string, or an object with before/after texts and/or a patch
+function toFileDiff(data: Record<string, unknown>): FileDiff | undefined {
+  const { diff } = data;
+  const file = typeof data.file === 'string' ? data.file : '';
+  if (typeof diff === 'string') return diff ? { path: file, patch: diff } : undefined;
+  if (typeof diff !== 'object' || diff === null) return undefined;
+  const fields = diff as Record<string, unknown>;
+  const text = (...keys: string[]) => keys.map(k => fields[k]).find((v): v is string => typeof v === 'string');
+  const before = text('before', 'old');
+  const after = text('after', 'new');
+  const patch = text('patch', 'unified');
+  if (before === undefined && after === undefined && !patch) return undefined;
+  return {
+    path: text('path', 'file') || file,
+    ...(before !== undefined && { before }),
+    ...(after !== undefined && { after }),
+    ...(patch && { patch }),
+  };
+}
+
+function toProgressStep(data: Record<string, unknown>, defaultStatus: ProgressStep['status'] = 'running'): ProgressStep | null {
+  if (!data.tool && !data.file && !data.action) return null;
+  const args = data.arguments ?? data.args;
+  const { result } = data;
+  const diff = toFileDiff(data);
+  return {
+    tool: (data.tool as string) ?? null,
+    file: (data.file as string) ?? null,
+    action: (data.action as string) ?? null,
+    status: (data.status as ProgressStep['status']) || defaultStatus,
+    content: (data.content as string) || '',
+    ...(typeof args === 'object' && args !== null && !Array.isArray(args) && { arguments: args as Record<string, unknown> }),
+    ...(result !== undefined && result !== null && { result: typeof result === 'string' ? result : JSON.stringify(result, null, 2) }),
+    ...(diff && { diff }),
+  };
+}
+
+// Accepts both the backend's snake_case counters and camelCase
+function toTokenUsage(data: Record<string, unknown>): TokenUsage {
+  const count = (...keys: string[]) => {
+    const value = keys.map(k => data[k]).find(v => typeof v === 'number');
+    return typeof value === 'number' ? value : 0;
+  };
+  return {
+    promptTokens: count('prompt_tokens', 'promptTokens'),
+    completionTokens: count('completion_tokens', 'completionTokens'),
+    cachedTokens: count('cached_tokens', 'cachedTokens'),
+    ...(typeof data.model === 'string' && data.model && { model: data.model }),
+  };
+}
+
+const RISK_LEVELS = new Set<ApprovalRequest['risk']>(['low', 'medium', 'high']);
+
+function toApprovalRequest(data: Record<string, unknown>): ApprovalRequest | null {
+  const id = data.requestId ?? data.request_id ?? data.id;
+  const tool = data.tool ?? data.name;
+  if (typeof id !== 'string' || typeof tool !== 'string') return null;
+  const args = data.arguments ?? data.args;
+  const risk = data.risk as ApprovalRequest['risk'];
+  return {
+    id,
+    tool,
+    arguments: typeof args === 'object' && args !== null && !Array.isArray(args) ? args as Record<string, unknown> : {},
+    risk: RISK_LEVELS.has(risk) ? risk : 'medium',
+    ...(typeof data.reason === 'string' && data.reason && { reason: data.reason }),
+  };
+}
+
+/** Map a raw SSE message onto the typed chat event union. Unknown event types yield null. */
+export function toChatStreamEvent(message: SSEMessage): ChatStreamEvent | null {
+  const { id } = message;
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(message.data);
+  } catch {
+    return message.data ? { type: 'text', content: message.data, id } : null;
+  }
+  if (typeof data !== 'object' || data === null) {
+    return { type: 'text', content: String(data), id };
+  }
+
+  const content = (data.content as string) || '';
+  const agentId = (data.agentId as string) || '';
+
+  switch (message.event) {
+    case 'thinking':
+      return { type: 'thinking', status: (data.status as string) || '', id };
+    case 'reasoning': {
+      const text = content || (data.delta as string) || '';
+      return text ? { type: 'reasoning', content: text, ...(agentId && { agentId }), id } : null;
+    }
+    case 'progress':
+      return { type: 'progress', content, step: toProgressStep(data), id };
+    case 'tool_result':
+      // Completes a tool step like a progress event, without adding text to the answer
+      return { type: 'progress', content: '', step: toProgressStep(data, 'completed'), id };
+    case 'message':
+      return { type: 'message', content: content || (data.delta as string) || '', id };
+    case 'content':
+      return { type: 'content', content: content || (data.delta as string) || '', id };
+    case 'agent_start':
+      return agentId ? { type: 'agent_start', agentId, id } : null;
+    case 'agent_progress':
+      return agentId ? { type: 'agent_progress', agentId, content, id } : null;
+    case 'agent_done':
+      return agentId ? { type: 'agent_done', agentId, content, error: data.error as string | undefined, id } : null;
+    case 'usage':
+      return { type: 'usage', usage: toTokenUsage(data), ...(agentId && { agentId }), id };
+    case 'approval_request': {
+      const request = toApprovalRequest(data);
+      return request ? { type: 'approval_request', request, ...(agentId && { agentId }), id } : null;
+    }
+    case 'done':
+      return { type: 'done', id };
+    case 'all_done':
+      return { type: 'all_done', id };
+    case 'error':
+      return { type: 'error', content: content || (data.error as string) || 'Unknown error', id };
+    default:
+      return null;
+  }
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// JSON normally; multipart with one `files` part per attachment and JSON-encoded list fields otherwise
+function toRequestBody({ files, ...fields }: ChatStreamRequest): string | FormData {
+  if (!files || files.length === 0) return JSON.stringify(fields);
+  const form = new FormData();
+  form.append('message', fields.message);
+  form.append('sessionId', fields.sessionId);
+  if (fields.agentId) form.append('agentId', fields.agentId);
+  if (fields.agentIds) form.append('agentIds', JSON.stringify(fields.agentIds));
+  if (fields.history) form.append('history', JSON.stringify(fields.history));
+  if (fields.quotedMessageId) form.append('quotedMessageId', fields.quotedMessageId);
+  if (fields.quotedExcerpt) form.append('quotedExcerpt', fields.quotedExcerpt);
+  for (const file of files) form.append('files', file, file.name);
+  return form;
+}
+
+async function openChatStream(request: ChatStreamRequest, signal?: AbortSignal, lastEventId?: string): Promise<ReadableStream<Uint8Array>> {
+  const body = toRequestBody(request);
+  // The browser sets the multipart boundary itself
+  const headers: Record<string, string> = typeof body === 'string' ? { 'Content-Type': 'application/json' } : {};
+  if (lastEventId) headers['Last-Event-ID'] = lastEventId;
+
+  const res = await fetchBackend(STREAM_ENDPOINT, {
+    method: 'POST',
+    headers,
+    body,
+    signal,
+  });
+
+  if (!res.ok) throw new Error(`API error: ${res.status}`);
+  if (!res.body) throw new Error('No response body');
+  return res.body;
+}
+
+/**
+ * POST to the chat stream endpoint and iterate over its typed events.
+ * If the server tags events with ids and the connection drops before a terminal event,
+ * the request is re-sent with `Last-Event-ID` so the server can resume where it left off.
+ */
+export async function* chatStream(request: ChatStreamRequest, options: ChatStreamOptions = {}): AsyncGenerator<ChatStreamEvent> {
+  const { signal, maxRetries = DEFAULT_MAX_RETRIES, onConnectionChange } = options;
+  let body = await openChatStream(request, signal);
+  let lastEventId: string | undefined;
+  let retryDelay = DEFAULT_RETRY_MS;
+  let attempt = 0;
+
+  while (true) {
+    let finished = false;
+    try {
+      for await (const message of readSSE(body)) {
+        attempt = 0;
+        if (message.id !== undefined) lastEventId = message.id;
+        if (message.retry !== undefined) retryDelay = message.retry;
+        const event = toChatStreamEvent(message);
+        if (!event) continue;
+        if (TERMINAL_EVENTS.has(event.type)) finished = true;
+        yield event;
+      }
+    } catch (error) {
+      if (isAbortError(error) || !lastEventId) throw error;
+    }
+    // Without event ids the server cannot resume, so EOF is all we get
+    if (finished || !lastEventId) return;
+
+    // Connection dropped mid-response: retry with linear backoff
+    while (true) {
+      if (attempt >= maxRetries) {
+        onConnectionChange?.('connected');
+        throw new StreamInterruptedError();
+      }
+      attempt++;
+      onConnectionChange?.('reconnecting');
+      await wait(retryDelay * attempt, signal);
+      try {
+        body = await openChatStream(request, signal, lastEventId);
+        onConnectionChange?.('connected');
+        break;
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.warn(`Stream reconnect attempt ${attempt} failed:`, error);
+      }
+    }
+  }
+}
+
+/** Callback flavour of {@link chatStream}; resolves once the stream ends. */
+export async function streamChat(request: ChatStreamRequest, { onEvent, ...options }: StreamChatOptions): Promise<void> {
+  for await (const event of chatStream(request, options)) {
+    onEvent(event);
+  }
+}
+
+/**
+ * Conversation history to send with a request. Router status messages are UI-only;
+ * earlier replies keep their quote as a Markdown blockquote.
+ */
+export function toChatHistory(messages: Message[]): ChatHistoryEntry[] {
+  return messages
+    .filter(m => m.agentId !== 'router' && m.content)
+    .map(m => ({ role: m.role, content: m.quote ? `${quoteMarkdown(m.quote)}\n\n${m.content}` : m.content }));
+}
+
+function quoteMarkdown(quote: MessageQuote): string {
+  return quote.excerpt.split('\n').map(line => `> ${line}`).join('\n');
+}
+
+/** Request fields for the message a prompt replies to. */
+export function toQuoteFields(quote?: MessageQuote): Pick<ChatStreamRequest, 'quotedMessageId' | 'quotedExcerpt'> {
+  return quote ? { quotedMessageId: quote.messageId, quotedExcerpt: quote.excerpt } : {};
+}
+
+/** Replace the step for the same tool/file, or append a new one. */
+export function upsertProgressStep(steps: ProgressStep[], step: ProgressStep): ProgressStep[] {
+  const existingIndex = steps.findIndex(s => s.tool === step.tool && s.file === step.file);
+  if (existingIndex >= 0) {
+    const updated = [...steps];
+    updated[existingIndex] = step;
+    return updated;
+  }
+  return [...steps, step];
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/** Ask the backend to stop the agent run for a session (optionally a single agent of it). */
+export async function cancelChat(sessionId: string, agentId?: string): Promise<void> {
+  try {
+    await fetch('/api/chat/cancel', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId, agentId }),
+    });
+  } catch (error) {
+    console.warn('Failed to cancel backend run:', error);
+  }
+}
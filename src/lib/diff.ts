@@ -0,0 +1,70 @@
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  value: string;
+}
+
+// Largest LCS table (tokens × tokens, after the common prefix and suffix) diffed synchronously
+export const MAX_DIFF_CELLS = 4_000_000;
+
+function pushPart(parts: DiffPart[], type: DiffPart['type'], value: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) last.value += value;
+  else parts.push({ type, value });
+}
+
+/**
+ * Longest-common-subsequence diff of two token lists; adjacent tokens of the same kind are merged.
+ * Null when the changed middle is too large to compare (see MAX_DIFF_CELLS).
+ */
+export function diffTokens(a: string[], b: string[]): DiffPart[] | null {
+  // Common prefix/suffix don't need the quadratic table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const rows = midA.length + 1;
+  const cols = midB.length + 1;
+  if (midA.length * midB.length > MAX_DIFF_CELLS) return null;
+  // lcs[i * cols + j] = LCS length of midA[i:] and midB[j:]
+  const lcs = new Uint32Array(rows * cols);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] = midA[i] === midB[j]
+        ? lcs[(i + 1) * cols + j + 1] + 1
+        : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  if (start > 0) pushPart(parts, 'equal', a.slice(0, start).join(''));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      pushPart(parts, 'equal', midA[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+      pushPart(parts, 'removed', midA[i++]);
+    } else {
+      pushPart(parts, 'added', midB[j++]);
+    }
+  }
+  while (i < midA.length) pushPart(parts, 'removed', midA[i++]);
+  while (j < midB.length) pushPart(parts, 'added', midB[j++]);
+  if (endA < a.length) pushPart(parts, 'equal', a.slice(endA).join(''));
+  return parts;
+}
+
+/** Word-level diff; whitespace runs are kept as their own tokens so the text reassembles exactly. Null when too large. */
+export function diffWords(a: string, b: string): DiffPart[] | null {
+  const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean);
+  return diffTokens(tokenize(a), tokenize(b));
+}
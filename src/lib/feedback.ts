@@ -0,0 +1,72 @@
+import type { Session } from '../contexts/SessionContext';
+import type { Message, MessageFeedback } from '../types/chat';
+
+export const FEEDBACK_REASONS: Record<MessageFeedback['rating'], string[]> = {
+  up: ['Accurate', 'Helpful', 'Well written', 'Good use of tools'],
+  down: ['Incorrect', 'Not helpful', 'Ignored instructions', 'Too long', 'Wrong tool use', 'Unsafe'],
+};
+
+export interface FeedbackPayload extends MessageFeedback {
+  sessionId: string;
+  messageId: string;
+  agentId: string;
+  content: string; // the rated answer, so the backend can review it without the session
+}
+
+/**
+ * Send feedback on an answer to the backend, which keeps the latest rating per message.
+ * Returns whether it was accepted; the rating stays on the message either way.
+ */
+export async function sendFeedback(payload: FeedbackPayload): Promise<boolean> {
+  try {
+    const response = await fetch('/api/feedback', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
+    return response.ok;
+  } catch (error) {
+    console.warn('Failed to send feedback:', error);
+    return false;
+  }
+}
+
+/** Agent that produced an answer: its own id in multi-agent mode, else the session's agent. */
+export function answeringAgent(message: Message, sessionAgentId: string): string {
+  return message.agentId || sessionAgentId;
+}
+
+export interface NegativeFeedbackEntry {
+  session: Session;
+  message: Message;
+  feedback: MessageFeedback;
+}
+
+export interface AgentFeedbackReport {
+  agentId: string;
+  entries: NegativeFeedbackEntry[]; // newest first
+  reasons: [reason: string, count: number][]; // most common first
+}
+
+/** Thumbs-down answers across all sessions, grouped by agent; agents with the most come first. */
+export function negativeFeedbackByAgent(sessions: Session[]): AgentFeedbackReport[] {
+  const byAgent = new Map<string, NegativeFeedbackEntry[]>();
+  for (const session of sessions) {
+    for (const message of session.tree.nodes) {
+      if (message.feedback?.rating !== 'down') continue;
+      const agentId = answeringAgent(message, session.agentId);
+      byAgent.set(agentId, [...(byAgent.get(agentId) || []), { session, message, feedback: message.feedback }]);
+    }
+  }
+  return [...byAgent].map(([agentId, entries]) => {
+    const reasons = new Map<string, number>();
+    for (const { feedback } of entries) {
+      if (feedback.reason) reasons.set(feedback.reason, (reasons.get(feedback.reason) || 0) + 1);
+    }
+    return {
+      agentId,
+      entries: entries.sort((a, b) => b.feedback.createdAt.localeCompare(a.feedback.createdAt)),
+      reasons: [...reasons].sort((a, b) => b[1] - a[1]),
+    };
+  }).sort((a, b) => b.entries.length - a.entries.length);
+}
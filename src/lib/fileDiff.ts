@@ -0,0 +1,158 @@
+import type { FileDiff } from '../types/chat';
+import { diffTokens } from './diff';
+
+export interface DiffLine {
+  type: 'context' | 'added' | 'removed';
+  oldLine: number | null; // 1-based; null for added lines
+  newLine: number | null; // 1-based; null for removed lines
+  text: string;
+}
+
+export interface DiffHunk {
+  header: string; // "@@ -12,7 +12,9 @@"
+  lines: DiffLine[];
+}
+
+// One row of the side-by-side view; a removed line pairs up with the added line that replaced it
+export interface SideBySideRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop(); // trailing newline
+  return lines;
+}
+
+/** Every line of the file, marked as kept, added or removed between `before` and `after`. */
+function diffFileLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  // diffTokens merges adjacent tokens, so give each line its newline back and split the parts again.
+  // Too many changed lines to compare: shown as a full replacement
+  const parts = diffTokens(a.map(l => `${l}\n`), b.map(l => `${l}\n`))
+    ?? [{ type: 'removed' as const, value: a.map(l => `${l}\n`).join('') }, { type: 'added' as const, value: b.map(l => `${l}\n`).join('') }];
+  const lines: DiffLine[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const part of parts) {
+    for (const text of splitLines(part.value)) {
+      if (part.type === 'equal') lines.push({ type: 'context', oldLine: oldLine++, newLine: newLine++, text });
+      else if (part.type === 'removed') lines.push({ type: 'removed', oldLine: oldLine++, newLine: null, text });
+      else lines.push({ type: 'added', oldLine: null, newLine: newLine++, text });
+    }
+  }
+  return lines;
+}
+
+/** Group changed lines into hunks with `context` unchanged lines around them, as `diff -u` does. */
+function toHunks(lines: DiffLine[], context: number): DiffHunk[] {
+  const ranges: [number, number][] = [];
+  lines.forEach((line, i) => {
+    if (line.type === 'context') return;
+    const start = Math.max(0, i - context);
+    const end = Math.min(lines.length - 1, i + context);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1] + 1) last[1] = end;
+    else ranges.push([start, end]);
+  });
+
+  return ranges.map(([start, end]) => {
+    const hunkLines = lines.slice(start, end + 1);
+    const before = lines.slice(0, start);
+    const oldCount = hunkLines.filter(l => l.type !== 'added').length;
+    const newCount = hunkLines.filter(l => l.type !== 'removed').length;
+    // An empty side starts at the line before it, as in diff -u
+    const oldStart = before.filter(l => l.type !== 'added').length + (oldCount > 0 ? 1 : 0);
+    const newStart = before.filter(l => l.type !== 'removed').length + (newCount > 0 ? 1 : 0);
+    return { header: `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`, lines: hunkLines };
+  });
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/** Hunks of a unified patch; file headers and "\ No newline at end of file" markers are skipped. */
+export function parseUnifiedPatch(patch: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+  let oldLeft = 0;
+  let newLeft = 0;
+  for (const raw of patch.split('\n')) {
+    const header = raw.match(HUNK_HEADER);
+    if (header && oldLeft <= 0 && newLeft <= 0) {
+      oldLine = Number(header[1]);
+      oldLeft = header[2] === undefined ? 1 : Number(header[2]);
+      newLine = Number(header[3]);
+      newLeft = header[4] === undefined ? 1 : Number(header[4]);
+      current = { header: raw, lines: [] };
+      hunks.push(current);
+      continue;
+    }
+    // Counts tell where a hunk ends, so "--- " inside one is still a removed line
+    if (!current || (oldLeft <= 0 && newLeft <= 0) || raw.startsWith('\\')) continue;
+    const text = raw.slice(1);
+    if (raw.startsWith('+')) {
+      current.lines.push({ type: 'added', oldLine: null, newLine: newLine++, text });
+      newLeft--;
+    } else if (raw.startsWith('-')) {
+      current.lines.push({ type: 'removed', oldLine: oldLine++, newLine: null, text });
+      oldLeft--;
+    } else {
+      current.lines.push({ type: 'context', oldLine: oldLine++, newLine: newLine++, text });
+      oldLeft--;
+      newLeft--;
+    }
+  }
+  return hunks;
+}
+
+/** Hunks to show for a diff payload: parsed from its patch, or computed from the before/after texts. */
+export function diffHunks(diff: FileDiff, context = 3): DiffHunk[] {
+  if (diff.before !== undefined || diff.after !== undefined) {
+    return toHunks(diffFileLines(diff.before ?? '', diff.after ?? ''), context);
+  }
+  return diff.patch ? parseUnifiedPatch(diff.patch) : [];
+}
+
+/** The patch for "copy patch": the backend's own when it sent one, otherwise a generated unified diff. */
+export function unifiedPatch(diff: FileDiff, hunks: DiffHunk[]): string {
+  if (diff.patch) return diff.patch;
+  const prefix = { context: ' ', added: '+', removed: '-' };
+  const body = hunks.flatMap(h => [h.header, ...h.lines.map(l => `${prefix[l.type]}${l.text}`)]);
+  return [`--- a/${diff.path}`, `+++ b/${diff.path}`, ...body].join('\n') + '\n';
+}
+
+export function diffStats(hunks: DiffHunk[]): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const line of hunks.flatMap(h => h.lines)) {
+    if (line.type === 'added') added++;
+    else if (line.type === 'removed') removed++;
+  }
+  return { added, removed };
+}
+
+/** Rows for the side-by-side view: runs of removed lines are paired with the added lines after them. */
+export function sideBySideRows(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type === 'context') {
+      rows.push({ left: lines[i], right: lines[i] });
+      i++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < lines.length && lines[i].type === 'removed') removed.push(lines[i++]);
+    while (i < lines.length && lines[i].type === 'added') added.push(lines[i++]);
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k] ?? null, right: added[k] ?? null });
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,62 @@
+import type { SlashSuggestion } from './slashCommands';
+
+// `@agent-id` preceded by start of text or whitespace
+const MENTION_PATTERN = /(^|\s)@([\w-]+)/g;
+
+export interface MentionSuggestion extends SlashSuggestion {
+  cursor: number; // caret position in `value` after inserting the mention
+}
+
+/** Known agent ids mentioned in the text, in order of first appearance. */
+export function parseMentions(text: string, agentIds: string[]): string[] {
+  const known = new Set(agentIds);
+  const mentioned: string[] = [];
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const id = match[2];
+    if (known.has(id) && !mentioned.includes(id)) mentioned.push(id);
+  }
+  return mentioned;
+}
+
+/** The text with the given mentions removed: the task the mentioned agents receive. */
+export function stripMentions(text: string, mentions: string[]): string {
+  return text
+    .replace(MENTION_PATTERN, (whole, space: string, id: string) => (mentions.includes(id) ? space : whole))
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+}
+
+/** Split text into plain runs and mentions of the given agents, for rendering. */
+export function splitMentions(text: string, mentions: string[]): { text: string; mention?: string }[] {
+  const parts: { text: string; mention?: string }[] = [];
+  let last = 0;
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const id = match[2];
+    if (!mentions.includes(id)) continue;
+    const start = match.index + match[1].length;
+    if (start > last) parts.push({ text: text.slice(last, start) });
+    parts.push({ text: `@${id}`, mention: id });
+    last = start + id.length + 1;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last) });
+  return parts;
+}
+
+/** Agents completing the `@partial` word that ends at the caret. */
+export function getMentionSuggestions(text: string, caret: number, agents: { id: string; name: string }[]): MentionSuggestion[] {
+  const match = /(^|\s)@([\w-]*)$/.exec(text.slice(0, caret));
+  if (!match) return [];
+  const partial = match[2].toLowerCase();
+  const start = caret - match[2].length - 1;
+  return agents
+    .filter(a => a.id.toLowerCase().startsWith(partial) || a.name.toLowerCase().startsWith(partial))
+    .map(a => {
+      const inserted = `@${a.id} `;
+      return {
+        value: text.slice(0, start) + inserted + text.slice(caret).replace(/^[\w-]*\s?/, ''),
+        label: `@${a.id}`,
+        description: a.name,
+        cursor: start + inserted.length,
+      };
+    });
+}
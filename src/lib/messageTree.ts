@@ -0,0 +1,115 @@
+import type { Message, MessageTree } from '../types/chat';
+
+// Key used in MessageTree.selected for top-level messages (parentId === null)
+const ROOT_KEY = '__root__';
+
+function parentKey(parentId: string | null | undefined): string {
+  return parentId ?? ROOT_KEY;
+}
+
+export function createMessageTree(): MessageTree {
+  return { nodes: [], selected: {} };
+}
+
+/** Build a single-branch tree from a flat, ordered message list (e.g. legacy sessions). */
+export function treeFromMessages(messages: Message[]): MessageTree {
+  let tree = createMessageTree();
+  for (const message of messages) {
+    tree = appendMessage(tree, message);
+  }
+  return tree;
+}
+
+/** Children of every node, in creation order, keyed by parent id (ROOT_KEY for top level). */
+export function indexChildren(tree: MessageTree): Map<string, Message[]> {
+  const index = new Map<string, Message[]>();
+  for (const node of tree.nodes) {
+    const key = parentKey(node.parentId);
+    const children = index.get(key);
+    if (children) children.push(node);
+    else index.set(key, [node]);
+  }
+  return index;
+}
+
+function selectedChild(tree: MessageTree, children: Message[] | undefined, key: string): Message | undefined {
+  if (!children || children.length === 0) return undefined;
+  return children.find(c => c.id === tree.selected[key]) || children[children.length - 1];
+}
+
+/** Messages of the currently selected branch, from the root down to its tip. */
+export function getThread(tree: MessageTree, index = indexChildren(tree)): Message[] {
+  const thread: Message[] = [];
+  let current = selectedChild(tree, index.get(ROOT_KEY), ROOT_KEY);
+  while (current) {
+    thread.push(current);
+    current = selectedChild(tree, index.get(current.id), current.id);
+  }
+  return thread;
+}
+
+/** Path from the root to (and including) the given message; empty for null. */
+export function getPathTo(tree: MessageTree, messageId: string | null): Message[] {
+  const byId = new Map(tree.nodes.map(n => [n.id, n]));
+  const path: Message[] = [];
+  let current = messageId ? byId.get(messageId) : undefined;
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+/** Messages sharing the parent of the given one (including itself), in creation order. */
+export function getSiblings(tree: MessageTree, message: Message, index = indexChildren(tree)): Message[] {
+  const siblings = index.get(parentKey(message.parentId));
+  return siblings?.some(m => m.id === message.id) ? siblings : [message];
+}
+
+/**
+ * Add a message to the tree and select it. With `parentId` undefined the message continues the
+ * selected branch; an explicit parent (or null for the root) starts a new branch there.
+ */
+export function appendMessage(tree: MessageTree, message: Message): MessageTree {
+  const parentId = message.parentId !== undefined
+    ? message.parentId
+    : getThread(tree).at(-1)?.id ?? null;
+  return {
+    nodes: [...tree.nodes, { ...message, parentId }],
+    selected: { ...tree.selected, [parentKey(parentId)]: message.id },
+  };
+}
+
+/** Replace fields of one message, e.g. to attach a bookmark; undefined values remove the field. */
+export function updateNode(tree: MessageTree, messageId: string, patch: Partial<Message>): MessageTree {
+  return {
+    ...tree,
+    nodes: tree.nodes.map(n => {
+      if (n.id !== messageId) return n;
+      const updated = { ...n, ...patch };
+      for (const key of Object.keys(patch) as (keyof Message)[]) {
+        if (patch[key] === undefined) delete updated[key];
+      }
+      return updated;
+    }),
+  };
+}
+
+/** Take out a message nothing replies to yet; its parent's selection falls back to the newest remaining child. */
+export function removeLeaf(tree: MessageTree, messageId: string): MessageTree {
+  const node = tree.nodes.find(n => n.id === messageId);
+  if (!node || tree.nodes.some(n => n.parentId === messageId)) return tree;
+  const key = parentKey(node.parentId);
+  const selected = { ...tree.selected };
+  if (selected[key] === messageId) delete selected[key];
+  return { nodes: tree.nodes.filter(n => n.id !== messageId), selected };
+}
+
+/** Select the branch leading to the given message: it and each of its ancestors become the selected child. */
+export function selectBranch(tree: MessageTree, messageId: string): MessageTree {
+  const path = getPathTo(tree, messageId);
+  if (path.length === 0) return tree;
+  const selected = { ...tree.selected };
+  for (const message of path) selected[parentKey(message.parentId)] = message.id;
+  return { ...tree, selected };
+}
@@ -0,0 +1,126 @@
+import type { Session } from '../contexts/SessionContext';
+import type { Message, PendingMessage, TokenUsage, ToolStep } from '../types/chat';
+import { StreamInterruptedError, chatStream, fetchBackend, toChatHistory, toQuoteFields } from './chatStream';
+import { getPathTo, getThread } from './messageTree';
+import { appendReasoning, endReasoning, toMessageReasoning, type ReasoningTrace } from './reasoning';
+import { finishToolSteps, recordToolStep } from './toolTimeline';
+import { getApprovalPolicies, policyFor, sendApprovalDecision } from './toolApproval';
+import { EMPTY_USAGE, addUsage } from './usage';
+
+// Any answer from nanobot counts, even a 404; a network failure or a gateway error (see fetchBackend) does not
+const HEALTH_ENDPOINT = '/api/health';
+export const PROBE_INTERVAL_MS = 15_000;
+
+/** Whether the backend answers right now. */
+export async function probeBackend(): Promise<boolean> {
+  try {
+    await fetchBackend(HEALTH_ENDPOINT, { cache: 'no-store' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The outbox entry for a user message that could not be sent. */
+export function toPendingMessage(message: Message): PendingMessage {
+  return {
+    id: message.id,
+    content: message.content,
+    queuedAt: new Date().toISOString(),
+    ...(message.attachments && { attachments: message.attachments }),
+    ...(message.quote && { quote: message.quote }),
+    ...(message.parentId !== undefined && { parentId: message.parentId }),
+  };
+}
+
+/** Add or replace an entry, keeping the outbox in the order messages were first queued. */
+export function addToOutbox(outbox: PendingMessage[], message: PendingMessage): PendingMessage[] {
+  return [...outbox.filter(m => m.id !== message.id), message].sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+/**
+ * Send an outbox message and wait for the whole answer, without the streaming UI of the chat page.
+ * Returns the prompt and its answer for the session's tree. Throws BackendUnreachableError
+ * when the backend is still down, so the message can stay queued, and any other error when the
+ * backend turned it down.
+ */
+export async function deliverPendingMessage(session: Session, pending: PendingMessage, files: File[]): Promise<{ prompt: Message; answer: Message }> {
+  const history = pending.parentId === undefined ? getThread(session.tree) : getPathTo(session.tree, pending.parentId);
+  const prompt: Message = {
+    id: pending.id, role: 'user', content: pending.content, timestamp: new Date(),
+    ...(pending.parentId !== undefined && { parentId: pending.parentId }),
+    ...(pending.attachments && { attachments: pending.attachments }),
+    ...(pending.quote && { quote: pending.quote }),
+  };
+  let content = '';
+  const agentContent: Record<string, string> = {};
+  let usage: TokenUsage | undefined;
+  let toolSteps: ToolStep[] = [];
+  let reasoning: ReasoningTrace | null = null;
+  let streamError: string | null = null;
+  const addContent = (text: string) => {
+    if (text) reasoning = endReasoning(reasoning);
+    content += text;
+  };
+  const answer = (fields: Partial<Message>): Message => {
+    const agentIds = Object.keys(agentContent);
+    const text = agentIds.length > 0 ? agentIds.map(id => `## ${id}\n\n${agentContent[id]}`).join('\n\n---\n\n') : content;
+    return {
+      id: `msg-${Date.now()}`, role: 'assistant', content: text || 'No response', timestamp: new Date(), parentId: prompt.id,
+      ...(usage && { usage }),
+      ...(toolSteps.length > 0 && { toolSteps: finishToolSteps(toolSteps) }),
+      ...toMessageReasoning(reasoning),
+      ...fields,
+    };
+  };
+
+  try {
+    const stream = chatStream({
+      message: pending.content,
+      sessionId: session.id,
+      agentId: session.agentId,
+      history: toChatHistory(history),
+      ...toQuoteFields(pending.quote),
+      files,
+    });
+    for await (const event of stream) {
+      switch (event.type) {
+        case 'reasoning':
+          reasoning = appendReasoning(reasoning, event.content);
+          break;
+        case 'progress':
+          if (event.step) toolSteps = recordToolStep(toolSteps, event.step);
+          addContent(event.content);
+          break;
+        case 'text':
+          addContent(event.content);
+          break;
+        case 'agent_progress':
+          addContent(event.content);
+          agentContent[event.agentId] = (agentContent[event.agentId] || '') + event.content;
+          break;
+        case 'agent_done':
+          agentContent[event.agentId] = event.content || agentContent[event.agentId] || '';
+          break;
+        case 'usage':
+          usage = addUsage(usage || EMPTY_USAGE, event.usage);
+          break;
+        case 'approval_request': {
+          // Nobody is watching this answer: 'ask' is declined like 'deny'
+          const policy = policyFor(getApprovalPolicies(), event.request.tool);
+          sendApprovalDecision(session.id, event.request, { approved: policy === 'auto' }, event.agentId);
+          break;
+        }
+        case 'error':
+          streamError = event.content;
+          break;
+      }
+    }
+  } catch (error) {
+    if (error instanceof StreamInterruptedError && content) return { prompt, answer: answer({ interrupted: true }) };
+    throw error;
+  }
+  // An error without any answer text: nothing worth keeping in the conversation
+  if (streamError && !content && Object.keys(agentContent).length === 0) throw new Error(streamError);
+  return { prompt, answer: answer({}) };
+}
@@ -0,0 +1,6 @@
+export const PERSONA_FILES = ['AGENTS.md', 'SOUL.md', 'USER.md', 'MEMORY.md', 'HISTORY.md'] as const;
+export type PersonaFileName = typeof PERSONA_FILES[number];
+
+export function isPersonaFile(name: string): name is PersonaFileName {
+  return (PERSONA_FILES as readonly string[]).includes(name);
+}
@@ -0,0 +1,64 @@
+import type { MessageReasoning } from '../types/chat';
+import { SETTINGS_CHANGED_EVENT } from './usage';
+
+// How answers show the model's reasoning: open, folded behind "Thought for 12s", or not at all
+export type ReasoningDisplay = 'shown' | 'collapsed' | 'hidden';
+
+export const REASONING_DISPLAYS: { value: ReasoningDisplay; label: string }[] = [
+  { value: 'shown', label: '展开显示' },
+  { value: 'collapsed', label: '折叠显示' },
+  { value: 'hidden', label: '隐藏' },
+];
+
+export const DEFAULT_REASONING_DISPLAY: ReasoningDisplay = 'collapsed';
+
+// Kept with the web settings (see pages/Settings.tsx)
+const SETTINGS_KEY = 'nanobot-settings';
+
+export function getReasoningDisplay(): ReasoningDisplay {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    const saved = raw ? JSON.parse(raw)?.web?.reasoning_display : undefined;
+    return REASONING_DISPLAYS.some(d => d.value === saved) ? saved : DEFAULT_REASONING_DISPLAY;
+  } catch {
+    return DEFAULT_REASONING_DISPLAY;
+  }
+}
+
+/** Notified when settings are saved in this tab or another one. */
+export function subscribeReasoningDisplay(listener: () => void): () => void {
+  window.addEventListener(SETTINGS_CHANGED_EVENT, listener);
+  window.addEventListener('storage', listener);
+  return () => {
+    window.removeEventListener(SETTINGS_CHANGED_EVENT, listener);
+    window.removeEventListener('storage', listener);
+  };
+}
+
+// Reasoning while it streams; timed from its first chunk until the answer starts
+export interface ReasoningTrace {
+  content: string;
+  startedAt: number;
+  endedAt?: number;
+}
+
+export function appendReasoning(trace: ReasoningTrace | null, text: string, now = Date.now()): ReasoningTrace {
+  return trace ? { ...trace, content: trace.content + text } : { content: text, startedAt: now };
+}
+
+/** Stop the clock at the first answer text; later calls keep the first end time. */
+export function endReasoning<T extends ReasoningTrace | null>(trace: T, now = Date.now()): T {
+  return trace && trace.endedAt === undefined ? { ...trace, endedAt: now } : trace;
+}
+
+/** The trace as stored on the answer; nothing when the model did not reason. */
+export function toMessageReasoning(trace: ReasoningTrace | null, now = Date.now()): { reasoning: MessageReasoning } | Record<string, never> {
+  if (!trace || !trace.content.trim()) return {};
+  return { reasoning: { content: trace.content, durationMs: (trace.endedAt ?? now) - trace.startedAt } };
+}
+
+/** "12s", "2m 5s"; at least a second so a quick thought doesn't read "0s". */
+export function formatThoughtDuration(ms: number): string {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
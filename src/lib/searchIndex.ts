@@ -0,0 +1,262 @@
+import type { Message } from '../types/chat';
+
+// In-memory inverted index over the messages of all sessions. The searchable text of a message
+// never changes once it is in a session tree (only annotations such as bookmarks do), so syncing
+// only has to index new nodes and drop removed ones.
+
+interface IndexedMessage {
+  key: string;
+  sessionId: string;
+  message: Message;
+  toolText: string; // tool call arguments and results
+  length: number; // token count, for length normalisation
+}
+
+export interface SearchIndex {
+  docs: Map<string, IndexedMessage>;
+  postings: Map<string, Map<string, number>>; // token -> doc key -> weighted term frequency
+  sessionDocs: Map<string, Set<string>>;
+  syncedNodes: Map<string, Message[]>; // session id -> node list the index last saw
+}
+
+export interface SearchFilters {
+  role?: Message['role'];
+  agentId?: string;
+  from?: Date; // inclusive
+  to?: Date; // exclusive
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchHit {
+  sessionId: string;
+  message: Message;
+  score: number;
+  snippet: SnippetPart[];
+  inToolCall: boolean; // matched only in tool call arguments/results
+}
+
+export interface SearchResultGroup {
+  sessionId: string;
+  score: number; // best hit in the session
+  hits: SearchHit[];
+}
+
+const TOOL_WEIGHT = 0.5; // matches in tool calls count less than matches in the message itself
+const SNIPPET_RADIUS = 60;
+const MAX_HITS = 200;
+
+// Scripts written without spaces are indexed as overlapping character pairs (plus single characters)
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+function docKey(sessionId: string, messageId: string): string {
+  return `${sessionId}\u0000${messageId}`;
+}
+
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const [word] of text.toLowerCase().matchAll(WORD_PATTERN)) {
+    if (!CJK_PATTERN.test(word)) {
+      tokens.push(word);
+      continue;
+    }
+    const chars = [...word];
+    chars.forEach((char, i) => {
+      tokens.push(char);
+      if (i + 1 < chars.length) tokens.push(char + chars[i + 1]);
+    });
+  }
+  return tokens;
+}
+
+// Query terms: whole words, and for CJK the pairs only (single characters when that's all there is)
+function queryTerms(query: string): string[] {
+  const terms = new Set<string>();
+  for (const [word] of query.toLowerCase().matchAll(WORD_PATTERN)) {
+    if (!CJK_PATTERN.test(word)) {
+      terms.add(word);
+      continue;
+    }
+    const chars = [...word];
+    if (chars.length === 1) terms.add(chars[0]);
+    for (let i = 0; i + 1 < chars.length; i++) terms.add(chars[i] + chars[i + 1]);
+  }
+  return [...terms];
+}
+
+function toolCallText(message: Message): string {
+  const calls = (message.toolCalls || []).map(call => `${call.name} ${JSON.stringify(call.arguments)} ${call.result || ''}`);
+  const steps = (message.toolSteps || []).map(step => `${step.tool} ${step.file || ''} ${step.arguments ? JSON.stringify(step.arguments) : ''} ${step.result || ''}`);
+  return [...calls, ...steps].join('\n');
+}
+
+export function createSearchIndex(): SearchIndex {
+  return { docs: new Map(), postings: new Map(), sessionDocs: new Map(), syncedNodes: new Map() };
+}
+
+function addPosting(index: SearchIndex, token: string, key: string, weight: number) {
+  let posting = index.postings.get(token);
+  if (!posting) {
+    posting = new Map();
+    index.postings.set(token, posting);
+  }
+  posting.set(key, (posting.get(key) || 0) + weight);
+}
+
+function indexMessage(index: SearchIndex, sessionId: string, message: Message) {
+  const key = docKey(sessionId, message.id);
+  const existing = index.docs.get(key);
+  if (existing) {
+    existing.message = message; // keep annotations current for result rendering
+    return;
+  }
+  const toolText = toolCallText(message);
+  const contentTokens = tokenize(message.content);
+  const toolTokens = tokenize(toolText);
+  contentTokens.forEach(token => addPosting(index, token, key, 1));
+  toolTokens.forEach(token => addPosting(index, token, key, TOOL_WEIGHT));
+  index.docs.set(key, { key, sessionId, message, toolText, length: contentTokens.length + toolTokens.length });
+  let keys = index.sessionDocs.get(sessionId);
+  if (!keys) {
+    keys = new Set();
+    index.sessionDocs.set(sessionId, keys);
+  }
+  keys.add(key);
+}
+
+function removeDocs(index: SearchIndex, keys: string[]) {
+  const removed = new Set(keys);
+  if (removed.size === 0) return;
+  for (const [token, posting] of index.postings) {
+    for (const key of removed) posting.delete(key);
+    if (posting.size === 0) index.postings.delete(token);
+  }
+  for (const key of removed) {
+    const doc = index.docs.get(key);
+    if (!doc) continue;
+    index.docs.delete(key);
+    index.sessionDocs.get(doc.sessionId)?.delete(key);
+  }
+}
+
+/**
+ * Bring the index in line with the sessions: new messages are indexed, messages of deleted,
+ * cleared or replaced sessions are dropped. Router status messages are not searchable.
+ */
+export function syncSearchIndex(index: SearchIndex, sessions: { id: string; tree: { nodes: Message[] } }[]) {
+  const liveSessions = new Set(sessions.map(s => s.id));
+  for (const sessionId of index.syncedNodes.keys()) {
+    if (liveSessions.has(sessionId)) continue;
+    removeDocs(index, [...(index.sessionDocs.get(sessionId) || [])]);
+    index.sessionDocs.delete(sessionId);
+    index.syncedNodes.delete(sessionId);
+  }
+
+  for (const session of sessions) {
+    // Trees are immutable, so an unchanged node list means nothing to do
+    if (index.syncedNodes.get(session.id) === session.tree.nodes) continue;
+    index.syncedNodes.set(session.id, session.tree.nodes);
+    const nodes = session.tree.nodes.filter(m => m.agentId !== 'router');
+    const live = new Set(nodes.map(m => docKey(session.id, m.id)));
+    removeDocs(index, [...(index.sessionDocs.get(session.id) || [])].filter(key => !live.has(key)));
+    for (const message of nodes) indexMessage(index, session.id, message);
+  }
+}
+
+function matchesFilters(message: Message, filters: SearchFilters): boolean {
+  if (filters.role && message.role !== filters.role) return false;
+  if (filters.agentId && message.agentId !== filters.agentId) return false;
+  if (filters.from && message.timestamp < filters.from) return false;
+  if (filters.to && message.timestamp >= filters.to) return false;
+  return true;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** A window of `text` around the first match, split into matching and plain parts. */
+export function buildSnippet(text: string, words: string[]): SnippetPart[] {
+  if (words.length === 0) return [{ text: text.slice(0, SNIPPET_RADIUS * 2), match: false }];
+  const pattern = new RegExp(words.map(escapeRegExp).sort((a, b) => b.length - a.length).join('|'), 'gi');
+  const first = text.search(pattern);
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(text.length, (first < 0 ? 0 : first) + SNIPPET_RADIUS * 2);
+  const window = (start > 0 ? '…' : '') + text.slice(start, end).replace(/\s+/g, ' ') + (end < text.length ? '…' : '');
+
+  const parts: SnippetPart[] = [];
+  let last = 0;
+  for (const match of window.matchAll(pattern)) {
+    if (match.index > last) parts.push({ text: window.slice(last, match.index), match: false });
+    parts.push({ text: match[0], match: true });
+    last = match.index + match[0].length;
+  }
+  if (last < window.length) parts.push({ text: window.slice(last), match: false });
+  return parts;
+}
+
+/**
+ * Messages containing every query term (the last one may be a prefix, for search-as-you-type),
+ * scored by tf-idf with a bonus for the exact phrase, grouped by session.
+ */
+export function searchMessages(index: SearchIndex, query: string, filters: SearchFilters = {}): SearchResultGroup[] {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return [];
+  const docCount = index.docs.size || 1;
+
+  // Doc key -> score, intersected term by term
+  let scores: Map<string, number> | null = null;
+  for (const [i, term] of terms.entries()) {
+    const isLast = i === terms.length - 1;
+    const tokens = isLast
+      ? [...index.postings.keys()].filter(token => token.startsWith(term))
+      : index.postings.has(term) ? [term] : [];
+    const termScores = new Map<string, number>();
+    for (const token of tokens) {
+      const posting = index.postings.get(token)!;
+      const idf = Math.log(1 + docCount / posting.size);
+      const exactness = token === term ? 1 : 0.7;
+      for (const [key, tf] of posting) {
+        termScores.set(key, (termScores.get(key) || 0) + tf * idf * exactness);
+      }
+    }
+    const previous: Map<string, number> | null = scores;
+    scores = new Map();
+    for (const [key, score] of termScores) {
+      if (previous && !previous.has(key)) continue;
+      scores.set(key, (previous?.get(key) || 0) + score);
+    }
+    if (scores.size === 0) return [];
+  }
+
+  const phrase = query.trim().toLowerCase();
+  const words = query.trim().split(/\s+/).filter(Boolean);
+  const hits: SearchHit[] = [];
+  for (const [key, score] of scores ?? []) {
+    const doc = index.docs.get(key)!;
+    if (!matchesFilters(doc.message, filters)) continue;
+    const content = doc.message.content;
+    const inContent = words.some(w => content.toLowerCase().includes(w.toLowerCase()));
+    const phraseBonus = content.toLowerCase().includes(phrase) ? 2 : 1;
+    hits.push({
+      sessionId: doc.sessionId,
+      message: doc.message,
+      score: (score / Math.sqrt(1 + doc.length)) * phraseBonus,
+      snippet: buildSnippet(inContent ? content : doc.toolText, words),
+      inToolCall: !inContent,
+    });
+  }
+  hits.sort((a, b) => b.score - a.score);
+
+  const groups = new Map<string, SearchResultGroup>();
+  for (const hit of hits.slice(0, MAX_HITS)) {
+    const group = groups.get(hit.sessionId);
+    if (group) group.hits.push(hit);
+    else groups.set(hit.sessionId, { sessionId: hit.sessionId, score: hit.score, hits: [hit] });
+  }
+  return [...groups.values()];
+}
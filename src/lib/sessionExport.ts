@@ -0,0 +1,208 @@
+import { strToU8, zipSync } from 'fflate';
+import type { Session } from '../contexts/SessionContext';
+import type { Message, MessageTree, ToolCall, ToolStep } from '../types/chat';
+import { getThread } from './messageTree';
+import { TOOL_STEP_STATUSES, formatDuration, stepDuration } from './toolTimeline';
+import { downloadFile } from './utils';
+
+// Bump when the exported JSON shape changes
+export const SESSION_EXPORT_VERSION = 1;
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { value: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { value: 'html', label: 'HTML', extension: 'html', mimeType: 'text/html' },
+];
+
+// Lossless file format: whole message trees (every branch), dates as ISO strings
+export interface ExportedMessage extends Omit<Message, 'timestamp'> {
+  timestamp: string;
+}
+
+export interface ExportedSession {
+  id: string;
+  name: string;
+  agentId: string;
+  createdAt: string;
+  updatedAt: string;
+  tree: { nodes: ExportedMessage[]; selected: MessageTree['selected'] };
+}
+
+export interface SessionExportFile {
+  version: number;
+  exportedAt: string;
+  sessions: ExportedSession[];
+}
+
+function toExportedSession(session: Session): ExportedSession {
+  return {
+    id: session.id,
+    name: session.name,
+    agentId: session.agentId,
+    createdAt: session.createdAt.toISOString(),
+    updatedAt: session.updatedAt.toISOString(),
+    tree: {
+      nodes: session.tree.nodes.map(m => ({ ...m, timestamp: m.timestamp.toISOString() })),
+      selected: session.tree.selected,
+    },
+  };
+}
+
+export function sessionsToJSON(sessions: Session[]): string {
+  const file: SessionExportFile = {
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    sessions: sessions.map(toExportedSession),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+function speaker(message: Message): string {
+  return message.role === 'user' ? 'You' : message.agentId || 'Assistant';
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+// Long enough that the fence can't be closed by backticks inside the content
+function fence(content: string, language = ''): string {
+  const longest = Math.max(2, ...(content.match(/`+/g) || []).map(run => run.length));
+  const ticks = '`'.repeat(longest + 1);
+  return `${ticks}${language}\n${content}\n${ticks}`;
+}
+
+function toolCallMarkdown(call: ToolCall): string {
+  const parts = [`<details>\n<summary>Tool: ${call.name}</summary>\n`, fence(JSON.stringify(call.arguments, null, 2), 'json')];
+  if (call.result) parts.push(`\nResult:\n\n${fence(call.result)}`);
+  parts.push('\n</details>');
+  return parts.join('\n');
+}
+
+// One line per step of an answer's tool timeline: what ran, on which file, how it ended and how long it took
+function toolStepLabel(step: ToolStep): string {
+  const status = TOOL_STEP_STATUSES.find(s => s.value === step.status)?.label ?? step.status;
+  const duration = stepDuration(step);
+  return `${[step.tool, step.action, step.file].filter(Boolean).join(' · ')} — ${status}${duration !== null ? ` (${formatDuration(duration)})` : ''}`;
+}
+
+function toolStepsMarkdown(steps: ToolStep[]): string {
+  return [`<details>\n<summary>Tool steps (${steps.length})</summary>\n`, ...steps.map(step => `- ${toolStepLabel(step)}`), '\n</details>'].join('\n');
+}
+
+/** The selected branch as readable Markdown; tool calls and tool steps become collapsible sections. */
+export function sessionToMarkdown(session: Session): string {
+  const lines = [`# ${session.name}`, '', `_Exported ${formatTimestamp(new Date())} · agent: ${session.agentId}_`];
+  for (const message of getThread(session.tree)) {
+    lines.push('', `### ${speaker(message)} · ${formatTimestamp(message.timestamp)}`, '');
+    if (message.content) lines.push(message.content);
+    for (const attachment of message.attachments || []) lines.push('', `📎 ${attachment.name}`);
+    if (message.toolSteps?.length) lines.push('', toolStepsMarkdown(message.toolSteps));
+    for (const call of message.toolCalls || []) lines.push('', toolCallMarkdown(call));
+  }
+  return lines.join('\n') + '\n';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #1A1A1A; background: #FAFAFA; }
+h1 { font-size: 1.4rem; margin-bottom: 0.25rem; }
+.meta { color: #666666; font-size: 0.85rem; margin-bottom: 2rem; }
+.message { margin: 1rem 0; padding: 0.75rem 1rem; border-radius: 12px; background: #FFFFFF; border: 1px solid #E5E5E5; }
+.message.user { background: #1A1A1A; color: #FFFFFF; border-color: #1A1A1A; margin-left: 20%; }
+.speaker { font-size: 0.75rem; color: #888888; margin-bottom: 0.4rem; }
+.content { white-space: pre-wrap; word-wrap: break-word; line-height: 1.5; }
+details { margin-top: 0.5rem; font-size: 0.85rem; }
+summary { cursor: pointer; color: #2563EB; }
+pre { background: #F5F5F5; color: #1A1A1A; padding: 0.5rem; border-radius: 6px; overflow-x: auto; white-space: pre-wrap; }
+`.trim();
+
+/** The selected branch as a single HTML file with inline styles and no external resources. */
+export function sessionToHTML(session: Session): string {
+  const messages = getThread(session.tree).map(message => {
+    const toolCalls = (message.toolCalls || []).map(call => `
+      <details><summary>Tool: ${escapeHtml(call.name)}</summary>
+        <pre>${escapeHtml(JSON.stringify(call.arguments, null, 2))}</pre>
+        ${call.result ? `<pre>${escapeHtml(call.result)}</pre>` : ''}
+      </details>`).join('');
+    const toolSteps = message.toolSteps?.length ? `
+      <details><summary>Tool steps (${message.toolSteps.length})</summary>
+        <ul>${message.toolSteps.map(step => `<li>${escapeHtml(toolStepLabel(step))}</li>`).join('')}</ul>
+      </details>` : '';
+    const attachments = (message.attachments || []).map(a => `<div class="speaker">📎 ${escapeHtml(a.name)}</div>`).join('');
+    return `
+    <div class="message ${message.role}">
+      <div class="speaker">${escapeHtml(speaker(message))} · ${escapeHtml(formatTimestamp(message.timestamp))}</div>
+      <div class="content">${escapeHtml(message.content)}</div>${attachments}${toolSteps}${toolCalls}
+    </div>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(session.name)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+  <h1>${escapeHtml(session.name)}</h1>
+  <div class="meta">Exported ${escapeHtml(formatTimestamp(new Date()))} · agent: ${escapeHtml(session.agentId)}</div>${messages}
+</body>
+</html>
+`;
+}
+
+function exportFormat(format: ExportFormat) {
+  return EXPORT_FORMATS.find(f => f.value === format)!;
+}
+
+/** File name safe on every OS, derived from the session name. */
+export function exportFileName(session: Session, format: ExportFormat): string {
+  const base = session.name.replace(/[\\/:*?"<>|\s]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'conversation';
+  return `${base}.${exportFormat(format).extension}`;
+}
+
+/** Contents and type of one session exported in the given format. */
+export function exportSession(session: Session, format: ExportFormat): { filename: string; content: string; mimeType: string } {
+  const content = format === 'json'
+    ? sessionsToJSON([session])
+    : format === 'html' ? sessionToHTML(session) : sessionToMarkdown(session);
+  return { filename: exportFileName(session, format), content, mimeType: exportFormat(format).mimeType };
+}
+
+export function downloadSession(session: Session, format: ExportFormat) {
+  const { filename, content, mimeType } = exportSession(session, format);
+  downloadFile(filename, content, mimeType);
+}
+
+/**
+ * Zip of every session: one lossless `sessions.json` plus a Markdown and an HTML file per session.
+ * Names are made unique with the session id when two sessions share a name.
+ */
+export function sessionsToArchive(sessions: Session[]): Uint8Array<ArrayBuffer> {
+  const files: Record<string, Uint8Array> = { 'sessions.json': strToU8(sessionsToJSON(sessions)) };
+  const used = new Set<string>();
+  for (const session of sessions) {
+    for (const format of ['markdown', 'html'] as const) {
+      let name = exportFileName(session, format);
+      if (used.has(name)) name = name.replace(/(\.\w+)$/, `-${session.id}$1`);
+      used.add(name);
+      files[`${format}/${name}`] = strToU8(format === 'html' ? sessionToHTML(session) : sessionToMarkdown(session));
+    }
+  }
+  return new Uint8Array(zipSync(files)); // copied so the bytes are backed by a plain ArrayBuffer, as Blob wants
+}
+
+export function downloadSessionsArchive(sessions: Session[]) {
+  downloadFile(`nanobot-sessions-${new Date().toISOString().slice(0, 10)}.zip`, sessionsToArchive(sessions), 'application/zip');
+}
@@ -0,0 +1,237 @@
+import type { Session } from '../contexts/SessionContext';
+import type { Message, MessageTree } from '../types/chat';
+import { selectBranch } from './messageTree';
+import { SESSION_EXPORT_VERSION, type ExportedSession } from './sessionExport';
+
+export type ImportSource = 'nanobot' | 'openai';
+
+export interface ImportedConversation {
+  session: Session;
+  source: ImportSource;
+  warnings: string[]; // parts of the conversation that could not be mapped
+}
+
+export interface ImportPreview {
+  conversations: ImportedConversation[];
+  errors: string[]; // conversations that could not be imported at all
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function isValidDate(date: Date): boolean {
+  return !Number.isNaN(date.getTime());
+}
+
+function invalidDatesWarning(count: number): string {
+  return `Replaced ${plural(count, 'invalid date')} with the import time`;
+}
+
+// ============ nanobot export (lib/sessionExport.ts) ============
+
+function fromExportedSession(exported: ExportedSession): ImportedConversation {
+  const warnings: string[] = [];
+  const importedAt = new Date();
+  let invalidDates = 0;
+  const toDate = (value: unknown) => {
+    const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+    if (date && isValidDate(date)) return date;
+    invalidDates++;
+    return importedAt;
+  };
+  const nodes: Message[] = [];
+  for (const node of exported.tree?.nodes || []) {
+    if (!node.id || (node.role !== 'user' && node.role !== 'assistant') || typeof node.content !== 'string') {
+      warnings.push(`Skipped a malformed message${node.id ? ` (${node.id})` : ''}`);
+      continue;
+    }
+    nodes.push({ ...node, timestamp: toDate(node.timestamp) });
+  }
+  const tree: MessageTree = { nodes, selected: exported.tree?.selected || {} };
+  const createdAt = toDate(exported.createdAt);
+  const updatedAt = toDate(exported.updatedAt);
+  if (invalidDates > 0) warnings.push(invalidDatesWarning(invalidDates));
+  return {
+    session: {
+      id: exported.id,
+      name: exported.name || 'Imported conversation',
+      agentId: exported.agentId || 'default',
+      tree,
+      createdAt,
+      updatedAt,
+    },
+    source: 'nanobot',
+    warnings,
+  };
+}
+
+function parseNanobotExport(data: Record<string, unknown>): ImportPreview {
+  if (typeof data.version !== 'number' || data.version > SESSION_EXPORT_VERSION) {
+    throw new Error(`Unsupported export version ${String(data.version)}; this app reads up to version ${SESSION_EXPORT_VERSION}`);
+  }
+  const preview: ImportPreview = { conversations: [], errors: [] };
+  (data.sessions as unknown[]).forEach((session, index) => {
+    if (isRecord(session) && typeof session.id === 'string') {
+      preview.conversations.push(fromExportedSession(session as unknown as ExportedSession));
+    } else {
+      preview.errors.push(`Session #${index + 1} has no id`);
+    }
+  });
+  return preview;
+}
+
+// ============ OpenAI conversations.json ============
+// Each conversation is a tree of nodes in `mapping`; `current_node` is the tip of the branch
+// that was shown last. System and tool nodes are dropped and their children re-attached.
+
+interface OpenAINode {
+  id: string;
+  parent?: string | null;
+  message?: {
+    id: string;
+    author?: { role?: string };
+    content?: { content_type?: string; parts?: unknown[]; text?: string };
+    create_time?: number | null;
+    metadata?: Record<string, unknown>;
+  } | null;
+}
+
+function openAIText(message: NonNullable<OpenAINode['message']>): string | null {
+  const { content } = message;
+  if (!content) return null;
+  if (typeof content.text === 'string') return content.text;
+  const parts = (content.parts || []).filter((part): part is string => typeof part === 'string');
+  return parts.length > 0 ? parts.join('\n') : null;
+}
+
+function fromOpenAIConversation(conversation: Record<string, unknown>): ImportedConversation {
+  // Keyed by node id; the key wins over a missing or stale `id` field
+  const mapping: Record<string, OpenAINode> = Object.fromEntries(
+    Object.entries(conversation.mapping as Record<string, OpenAINode>).map(([id, node]) => [id, { ...node, id }])
+  );
+  const conversationId = String(conversation.conversation_id || conversation.id || '');
+  // A missing time takes the fallback; one that can't be read takes the import time and is reported
+  const importedAt = new Date();
+  let invalidDates = 0;
+  const toDate = (seconds: unknown, fallback: Date) => {
+    if (seconds === undefined || seconds === null) return fallback;
+    const date = typeof seconds === 'number' ? new Date(seconds * 1000) : null;
+    if (date && isValidDate(date)) return date;
+    invalidDates++;
+    return importedAt;
+  };
+  const createdAt = toDate(conversation.create_time, importedAt);
+  const updatedAt = toDate(conversation.update_time, createdAt);
+
+  const skippedRoles = new Map<string, number>();
+  let nonText = 0;
+  const mapped = new Set<string>();
+  const nodes: Message[] = [];
+
+  // Nearest ancestor (or the node itself) that became a Message; null at the root
+  const resolve = (nodeId: string | null | undefined): string | null => {
+    const seen = new Set<string>();
+    while (nodeId && mapping[nodeId] && !seen.has(nodeId)) {
+      if (mapped.has(nodeId)) return nodeId;
+      seen.add(nodeId);
+      nodeId = mapping[nodeId].parent;
+    }
+    return null;
+  };
+
+  // Parents before children, so `resolve` sees every mapped ancestor
+  const ordered: OpenAINode[] = [];
+  const visited = new Set<string>();
+  for (const start of Object.values(mapping)) {
+    const chain: OpenAINode[] = [];
+    for (let node: OpenAINode | undefined = start; node && !visited.has(node.id); node = node.parent ? mapping[node.parent] : undefined) {
+      visited.add(node.id);
+      chain.push(node);
+    }
+    ordered.push(...chain.reverse());
+  }
+
+  for (const node of ordered) {
+    const message = node.message;
+    const role = message?.author?.role;
+    if (!message || message.metadata?.is_visually_hidden_from_conversation) continue;
+    if (role !== 'user' && role !== 'assistant') {
+      if (role) skippedRoles.set(role, (skippedRoles.get(role) || 0) + 1);
+      continue;
+    }
+    const text = openAIText(message);
+    if (text === null) {
+      nonText++;
+      continue;
+    }
+    if (!text.trim()) continue;
+    nodes.push({
+      id: node.id,
+      role,
+      content: text,
+      timestamp: toDate(message.create_time, createdAt),
+      parentId: resolve(node.parent),
+    });
+    mapped.add(node.id);
+  }
+
+  // Show the branch that ends at current_node
+  const tip = resolve(conversation.current_node as string | undefined);
+  const tree = tip ? selectBranch({ nodes, selected: {} }, tip) : { nodes, selected: {} };
+
+  const warnings = [...skippedRoles].map(([role, count]) => `Skipped ${plural(count, `${role} message`)}`);
+  if (nonText > 0) warnings.push(`Skipped ${plural(nonText, 'message')} without text (images, files or other attachments)`);
+  if (invalidDates > 0) warnings.push(invalidDatesWarning(invalidDates));
+
+  return {
+    session: {
+      id: `openai_${conversationId || createdAt.getTime()}`,
+      name: (conversation.title as string) || 'Imported conversation',
+      agentId: 'default',
+      tree,
+      createdAt,
+      updatedAt,
+    },
+    source: 'openai',
+    warnings,
+  };
+}
+
+function parseOpenAIExport(conversations: unknown[]): ImportPreview {
+  const preview: ImportPreview = { conversations: [], errors: [] };
+  conversations.forEach((conversation, index) => {
+    const title = isRecord(conversation) && typeof conversation.title === 'string' ? `"${conversation.title}"` : `#${index + 1}`;
+    if (!isRecord(conversation) || !isRecord(conversation.mapping)) {
+      preview.errors.push(`Conversation ${title} has no message tree`);
+      return;
+    }
+    try {
+      preview.conversations.push(fromOpenAIConversation(conversation));
+    } catch (error) {
+      preview.errors.push(`Conversation ${title}: ${error instanceof Error ? error.message : 'could not be read'}`);
+    }
+  });
+  return preview;
+}
+
+/**
+ * Read an import file: a nanobot session export, or an OpenAI-style `conversations.json`
+ * (a list of conversations, or a single one). Throws when the format isn't recognised.
+ */
+export function parseImportFile(text: string): ImportPreview {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (isRecord(data) && Array.isArray(data.sessions)) return parseNanobotExport(data);
+  if (isRecord(data) && isRecord(data.mapping)) return parseOpenAIExport([data]);
+  if (Array.isArray(data) && data.some(item => isRecord(item) && 'mapping' in item)) return parseOpenAIExport(data);
+  throw new Error('Unrecognized file: expected a nanobot session export or a conversations.json');
+}
@@ -0,0 +1,83 @@
+// Composer slash commands. Pages register the commands they can handle while mounted;
+// anything else typed after `/` goes to the backend, which has slash commands of its own.
+
+export interface SlashCommand {
+  name: string; // without the leading slash
+  description: string;
+  args?: string; // usage hint, e.g. '<id>'
+  /** Completions for the argument, given what has been typed so far. */
+  suggestArgs?: (partial: string) => string[];
+  /** Runs the command; a returned string is shown to the user as feedback. */
+  run: (args: string) => void | string | Promise<void | string>;
+}
+
+export interface SlashSuggestion {
+  value: string; // full composer text after choosing the suggestion
+  label: string;
+  description?: string;
+}
+
+const registry = new Map<string, SlashCommand>();
+const listeners = new Set<() => void>();
+let snapshot: SlashCommand[] = [];
+
+function emitChange() {
+  snapshot = [...registry.values()].sort((a, b) => a.name.localeCompare(b.name));
+  listeners.forEach(listener => listener());
+}
+
+/** Register commands; returns a function that removes them again. Later registrations win on name clashes. */
+export function registerSlashCommands(commands: SlashCommand[]): () => void {
+  commands.forEach(command => registry.set(command.name, command));
+  emitChange();
+  return () => {
+    commands.forEach(command => {
+      if (registry.get(command.name) === command) registry.delete(command.name);
+    });
+    emitChange();
+  };
+}
+
+export function subscribeSlashCommands(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function getSlashCommands(): SlashCommand[] {
+  return snapshot;
+}
+
+/** Split `/name args` into its parts; null when the text is not a single-line slash command. */
+export function parseSlashCommand(input: string): { name: string; args: string } | null {
+  const match = /^\/(\S+)(?:\s+([\s\S]*))?$/.exec(input.trim());
+  if (!match || input.includes('\n')) return null;
+  return { name: match[1].toLowerCase(), args: (match[2] || '').trim() };
+}
+
+export function findSlashCommand(name: string): SlashCommand | undefined {
+  return registry.get(name.toLowerCase());
+}
+
+/** Autocomplete entries for the composer text: command names first, then the command's arguments. */
+export function getSlashSuggestions(input: string, commands = snapshot): SlashSuggestion[] {
+  if (!input.startsWith('/') || input.includes('\n')) return [];
+  const spaceIndex = input.indexOf(' ');
+
+  if (spaceIndex === -1) {
+    const prefix = input.slice(1).toLowerCase();
+    return commands
+      .filter(c => c.name.startsWith(prefix))
+      .map(c => ({
+        value: `/${c.name}${c.args ? ' ' : ''}`,
+        label: `/${c.name}${c.args ? ` ${c.args}` : ''}`,
+        description: c.description,
+      }));
+  }
+
+  const command = commands.find(c => c.name === input.slice(1, spaceIndex).toLowerCase());
+  if (!command?.suggestArgs) return [];
+  const partial = input.slice(spaceIndex + 1).trimStart();
+  return command.suggestArgs(partial)
+    .filter(arg => arg.toLowerCase().startsWith(partial.toLowerCase()) && arg !== partial)
+    .map(arg => ({ value: `/${command.name} ${arg}`, label: arg }));
+}
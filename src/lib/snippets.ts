@@ -0,0 +1,68 @@
+export interface Snippet {
+  id: string;
+  name: string;
+  content: string; // may contain {{variable}} placeholders
+  tags: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Bump when the export format changes incompatibly
+export const SNIPPET_EXPORT_VERSION = 1;
+
+interface SnippetExport {
+  version: number;
+  snippets: Snippet[];
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/** Placeholder names in order of first appearance. */
+export function extractVariables(content: string): string[] {
+  const names: string[] = [];
+  for (const match of content.matchAll(VARIABLE_PATTERN)) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+}
+
+/** Replace placeholders with their values; placeholders without a value are left as-is. */
+export function fillSnippet(content: string, values: Record<string, string>): string {
+  return content.replace(VARIABLE_PATTERN, (whole, name: string) => values[name] ?? whole);
+}
+
+/** "a, b ,,c" -> ['a', 'b', 'c'] */
+export function parseTags(input: string): string[] {
+  return [...new Set(input.split(',').map(t => t.trim()).filter(Boolean))];
+}
+
+export function serializeSnippets(snippets: Snippet[]): string {
+  const data: SnippetExport = { version: SNIPPET_EXPORT_VERSION, snippets };
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Read snippets from an exported file. Accepts the versioned export or a bare array;
+ * entries without a name or content are dropped. Throws on invalid JSON or a newer version.
+ */
+export function parseSnippetFile(json: string): Snippet[] {
+  const data = JSON.parse(json);
+  if (!Array.isArray(data) && typeof data?.version === 'number' && data.version > SNIPPET_EXPORT_VERSION) {
+    throw new Error(`Unsupported snippet file version ${data.version}`);
+  }
+  const entries: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.snippets) ? data.snippets : [];
+  const now = new Date();
+
+  return entries.flatMap((entry) => {
+    const raw = entry as Partial<Record<keyof Snippet, unknown>>;
+    if (typeof raw.name !== 'string' || typeof raw.content !== 'string') return [];
+    return [{
+      id: typeof raw.id === 'string' ? raw.id : '',
+      name: raw.name,
+      content: raw.content,
+      tags: Array.isArray(raw.tags) ? raw.tags.filter((t): t is string => typeof t === 'string') : [],
+      createdAt: typeof raw.createdAt === 'string' ? new Date(raw.createdAt) : now,
+      updatedAt: typeof raw.updatedAt === 'string' ? new Date(raw.updatedAt) : now,
+    }];
+  });
+}
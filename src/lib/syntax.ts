@@ -0,0 +1,121 @@
+// Lightweight, line-at-a-time syntax highlighting for diffs. A line can't see the lines around it,
+// so block comments and multi-line strings are only coloured on the lines that open them.
+
+export type SyntaxTokenType = 'keyword' | 'string' | 'comment' | 'number' | 'plain';
+
+export interface SyntaxToken {
+  type: SyntaxTokenType;
+  text: string;
+}
+
+interface LanguageRules {
+  keywords: Set<string>;
+  lineComments: string[];
+  quotes: string[];
+}
+
+const words = (list: string) => new Set(list.split(' '));
+
+const C_LIKE_COMMENTS = ['//', '/*'];
+
+const LANGUAGES: Record<string, LanguageRules> = {
+  javascript: {
+    keywords: words('const let var function return if else for while do switch case default break continue new class extends import export from as async await try catch finally throw typeof instanceof in of null undefined true false this super interface type enum implements readonly public private protected static void yield'),
+    lineComments: C_LIKE_COMMENTS,
+    quotes: ['"', "'", '`'],
+  },
+  python: {
+    keywords: words('def return if elif else for while break continue class import from as with try except finally raise pass lambda yield async await None True False and or not in is global nonlocal assert del self'),
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+  },
+  shell: {
+    keywords: words('if then else elif fi for while do done case esac function return export local in echo exit set'),
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+  },
+  go: {
+    keywords: words('package import func return if else for range switch case default break continue go defer select chan map struct interface type var const nil true false'),
+    lineComments: C_LIKE_COMMENTS,
+    quotes: ['"', "'", '`'],
+  },
+  rust: {
+    keywords: words('fn let mut const static struct enum impl trait pub use mod crate self Self return if else match for while loop break continue as ref move async await where type true false None Some Ok Err'),
+    lineComments: C_LIKE_COMMENTS,
+    quotes: ['"'],
+  },
+  c: {
+    keywords: words('int char float double long short unsigned signed void bool auto const static struct union enum typedef return if else for while do switch case default break continue sizeof class public private protected new delete template typename namespace using true false nullptr NULL include define'),
+    lineComments: C_LIKE_COMMENTS,
+    quotes: ['"', "'"],
+  },
+  java: {
+    keywords: words('class interface enum extends implements public private protected static final abstract void return if else for while do switch case default break continue new try catch finally throw throws import package this super null true false var'),
+    lineComments: C_LIKE_COMMENTS,
+    quotes: ['"', "'"],
+  },
+  json: { keywords: words('true false null'), lineComments: [], quotes: ['"'] },
+  yaml: { keywords: words('true false null yes no on off'), lineComments: ['#'], quotes: ['"', "'"] },
+  css: { keywords: words('important media import from to'), lineComments: ['/*'], quotes: ['"', "'"] },
+  toml: { keywords: words('true false'), lineComments: ['#'], quotes: ['"', "'"] },
+};
+
+const EXTENSIONS: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript', ts: 'javascript', tsx: 'javascript',
+  py: 'python', pyi: 'python',
+  sh: 'shell', bash: 'shell', zsh: 'shell',
+  go: 'go',
+  rs: 'rust',
+  c: 'c', h: 'c', cc: 'c', cpp: 'c', hpp: 'c',
+  java: 'java', kt: 'java',
+  json: 'json',
+  yml: 'yaml', yaml: 'yaml',
+  css: 'css', scss: 'css',
+  toml: 'toml', ini: 'toml',
+};
+
+/** Language id for a file path by its extension, or null when it isn't highlighted. */
+export function languageForPath(path: string): string | null {
+  const extension = path.split('/').pop()?.split('.').slice(1).pop()?.toLowerCase();
+  return (extension && EXTENSIONS[extension]) || null;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const patternCache = new Map<string, RegExp>();
+
+// Alternatives in order, one capture group each: comment (rest of line), string (possibly unterminated), number, word, anything else
+function tokenPattern(language: string, rules: LanguageRules): RegExp {
+  let pattern = patternCache.get(language);
+  if (!pattern) {
+    const comment = rules.lineComments.length > 0 ? `(?:${rules.lineComments.map(escapeRegExp).join('|')}).*` : '(?!)';
+    const string = rules.quotes.map(q => `${q}(?:[^${q}\\\\]|\\\\.)*${q}?`).join('|');
+    pattern = new RegExp(`(${comment})|(${string})|(\\b\\d[\\w.]*)|([A-Za-z_$][\\w$]*)|(\\s+|.)`, 'g');
+    patternCache.set(language, pattern);
+  }
+  pattern.lastIndex = 0;
+  return pattern;
+}
+
+/** Tokens of one line; a single plain token when the language is unknown. */
+export function highlightLine(line: string, language: string | null): SyntaxToken[] {
+  const rules = language ? LANGUAGES[language] : undefined;
+  if (!rules || !language) return [{ type: 'plain', text: line }];
+  const tokens: SyntaxToken[] = [];
+  const push = (type: SyntaxTokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) last.text += text;
+    else tokens.push({ type, text });
+  };
+  for (const match of line.matchAll(tokenPattern(language, rules))) {
+    const [text, comment, string, number, word] = match;
+    if (comment) push('comment', text);
+    else if (string) push('string', text);
+    else if (number) push('number', text);
+    else if (word && rules.keywords.has(word)) push('keyword', text);
+    else push('plain', text);
+  }
+  return tokens;
+}
@@ -0,0 +1,43 @@
+export interface Todo {
+  id: string;
+  title: string;
+  completed: boolean;
+  dueDate?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const TODOS_STORAGE_KEY = 'nanobot-todos';
+
+export function generateTodoId(): string {
+  return Math.random().toString(36).substring(2, 9) + Date.now().toString(36);
+}
+
+export function createTodo(title: string, dueDate?: string): Todo {
+  const now = new Date().toISOString();
+  return {
+    id: generateTodoId(),
+    title: title.trim(),
+    completed: false,
+    dueDate: dueDate || undefined,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function loadTodos(): Todo[] {
+  try {
+    const saved = localStorage.getItem(TODOS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Failed to parse todos:', error);
+    return [];
+  }
+}
+
+/** Add a todo from outside the Todos page (e.g. the /todo chat command). */
+export function appendTodo(title: string): Todo {
+  const todo = createTodo(title);
+  localStorage.setItem(TODOS_STORAGE_KEY, JSON.stringify([...loadTodos(), todo]));
+  return todo;
+}
@@ -0,0 +1,71 @@
+import type { ApprovalRequest } from '../types/chat';
+
+// What the web UI does when the backend asks before running a tool
+export type ApprovalPolicy = 'ask' | 'auto' | 'deny';
+
+export const APPROVAL_POLICIES: { value: ApprovalPolicy; label: string }[] = [
+  { value: 'ask', label: '每次询问' },
+  { value: 'auto', label: '自动批准' },
+  { value: 'deny', label: '拒绝' },
+];
+
+// nanobot's built-in tools; anything that changes files or runs commands asks first
+export const DEFAULT_APPROVAL_POLICIES: Record<string, ApprovalPolicy> = {
+  exec: 'ask',
+  write_file: 'ask',
+  edit_file: 'ask',
+  read_file: 'auto',
+  list_dir: 'auto',
+  web_search: 'auto',
+  web_fetch: 'auto',
+};
+
+// Policies are kept with the tools settings (see pages/Settings.tsx)
+const SETTINGS_KEY = 'nanobot-settings';
+
+/** Saved per-tool policies over the defaults; read when a request arrives, so saves apply at once. */
+export function getApprovalPolicies(): Record<string, ApprovalPolicy> {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    const saved = raw ? JSON.parse(raw)?.tools?.approval_policies : undefined;
+    return { ...DEFAULT_APPROVAL_POLICIES, ...(saved && typeof saved === 'object' ? saved : {}) };
+  } catch {
+    return DEFAULT_APPROVAL_POLICIES;
+  }
+}
+
+/** Tools without a policy ask: the backend only requests approval for calls it considers risky. */
+export function policyFor(policies: Record<string, ApprovalPolicy>, tool: string): ApprovalPolicy {
+  return policies[tool] ?? 'ask';
+}
+
+export interface ApprovalDecision {
+  approved: boolean;
+  arguments?: Record<string, unknown>; // edited arguments to run the tool with instead
+}
+
+/** Answer an `approval_request`; the agent run waits for it. Returns whether the backend accepted it. */
+export async function sendApprovalDecision(
+  sessionId: string,
+  request: ApprovalRequest,
+  decision: ApprovalDecision,
+  agentId?: string
+): Promise<boolean> {
+  try {
+    const response = await fetch('/api/chat/approval', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        sessionId,
+        requestId: request.id,
+        approved: decision.approved,
+        ...(decision.arguments && { arguments: decision.arguments }),
+        ...(agentId && { agentId }),
+      }),
+    });
+    return response.ok;
+  } catch (error) {
+    console.warn('Failed to send approval decision:', error);
+    return false;
+  }
+}
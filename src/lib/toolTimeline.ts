@@ -0,0 +1,72 @@
+import type { ProgressStep, ToolStep, ToolStepStatus } from '../types/chat';
+
+export const TOOL_STEP_STATUSES: { value: ToolStepStatus; label: string }[] = [
+  { value: 'running', label: 'Running' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'error', label: 'Error' },
+  { value: 'incomplete', label: 'Incomplete' },
+];
+
+/**
+ * Add a progress event to an answer's timeline. Updates the latest running step for the same
+ * tool and file, so a tool that runs twice gets two steps; anything else starts a new step.
+ */
+export function recordToolStep(steps: ToolStep[], step: ProgressStep, now = new Date()): ToolStep[] {
+  const tool = step.tool || 'unknown';
+  let index = steps.length - 1;
+  while (index >= 0 && !(steps[index].status === 'running' && steps[index].tool === tool && steps[index].file === step.file)) index--;
+  const timestamp = now.toISOString();
+  const ended = step.status !== 'running' ? { endedAt: timestamp } : {};
+  if (index < 0) {
+    return [...steps, {
+      id: `step-${steps.length}`,
+      tool,
+      file: step.file,
+      action: step.action,
+      status: step.status,
+      content: step.content,
+      startedAt: timestamp,
+      ...ended,
+      ...(step.arguments && { arguments: step.arguments }),
+      ...(step.result !== undefined && { result: step.result }),
+      ...(step.diff && { diff: step.diff }),
+    }];
+  }
+  const current = steps[index];
+  const updated: ToolStep = {
+    ...current,
+    action: step.action ?? current.action,
+    status: step.status,
+    content: step.content || current.content,
+    ...ended,
+    ...(step.arguments && { arguments: step.arguments }),
+    ...(step.result !== undefined && { result: step.result }),
+    ...(step.diff && { diff: step.diff }),
+  };
+  return steps.map((s, i) => (i === index ? updated : s));
+}
+
+/** Close the timeline when the answer ends; steps still running never reported back. */
+export function finishToolSteps(steps: ToolStep[], now = new Date()): ToolStep[] {
+  return steps.map(s => (s.status === 'running' ? { ...s, status: 'incomplete', endedAt: now.toISOString() } : s));
+}
+
+/** Milliseconds from start to end, or null while the step is running. */
+export function stepDuration(step: ToolStep): number | null {
+  if (!step.endedAt) return null;
+  return Math.max(0, new Date(step.endedAt).getTime() - new Date(step.startedAt).getTime());
+}
+
+/** Wall-clock time from the first step's start to the last step's end. */
+export function timelineDuration(steps: ToolStep[]): number | null {
+  const ends = steps.map(s => s.endedAt).filter((end): end is string => !!end);
+  if (steps.length === 0 || ends.length === 0) return null;
+  const start = Math.min(...steps.map(s => new Date(s.startedAt).getTime()));
+  return Math.max(0, Math.max(...ends.map(end => new Date(end).getTime())) - start);
+}
+
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`;
+}
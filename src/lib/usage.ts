@@ -0,0 +1,139 @@
+import type { Message, TokenUsage } from '../types/chat';
+
+// USD per million tokens for one provider/model; `model` also matches dated variants
+// ("claude-sonnet-4" prices "claude-sonnet-4-20250514")
+export interface ModelPrice {
+  provider: string;
+  model: string;
+  input: number;
+  output: number;
+  cached: number; // cache reads
+}
+
+export const DEFAULT_PRICES: ModelPrice[] = [
+  { provider: 'anthropic', model: 'claude-opus-4', input: 15, output: 75, cached: 1.5 },
+  { provider: 'anthropic', model: 'claude-sonnet-4', input: 3, output: 15, cached: 0.3 },
+  { provider: 'openai', model: 'gpt-4o', input: 2.5, output: 10, cached: 1.25 },
+  { provider: 'openai', model: 'gpt-4o-mini', input: 0.15, output: 0.6, cached: 0.075 },
+  { provider: 'deepseek', model: 'deepseek-chat', input: 0.27, output: 1.1, cached: 0.07 },
+];
+
+// The price table is kept with the web settings (see pages/Settings.tsx)
+const SETTINGS_KEY = 'nanobot-settings';
+export const SETTINGS_CHANGED_EVENT = 'settings-changed';
+
+export const EMPTY_USAGE: TokenUsage = { promptTokens: 0, completionTokens: 0, cachedTokens: 0 };
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    cachedTokens: a.cachedTokens + b.cachedTokens,
+    model: b.model || a.model,
+  };
+}
+
+export function totalTokens(usage: TokenUsage): number {
+  return usage.promptTokens + usage.completionTokens;
+}
+
+/**
+ * Price for a model id as reported by the backend, with or without a provider prefix
+ * ("openrouter/anthropic/claude-sonnet-4", "gpt-4o"). The longest matching model name wins.
+ */
+export function findPrice(prices: ModelPrice[], modelId: string | undefined): ModelPrice | undefined {
+  if (!modelId) return undefined;
+  const parts = modelId.toLowerCase().split('/');
+  const name = parts[parts.length - 1];
+  const providers = parts.slice(0, -1);
+  return prices
+    .filter(p => {
+      const model = p.model.toLowerCase();
+      const sameModel = name === model || name.startsWith(`${model}-`);
+      return sameModel && (providers.length === 0 || providers.includes(p.provider.toLowerCase()));
+    })
+    .sort((a, b) => b.model.length - a.model.length)[0];
+}
+
+/** Estimated cost in USD, or null when the model has no price. */
+export function estimateCost(usage: TokenUsage, prices: ModelPrice[]): number | null {
+  const price = findPrice(prices, usage.model);
+  if (!price) return null;
+  const uncached = Math.max(0, usage.promptTokens - usage.cachedTokens);
+  return (uncached * price.input + usage.cachedTokens * price.cached + usage.completionTokens * price.output) / 1_000_000;
+}
+
+export interface UsageSummary {
+  usage: TokenUsage;
+  cost: number; // over the messages whose model has a price
+  unpriced: boolean; // some usage could not be priced
+}
+
+/** Totals over messages, e.g. every node of a session tree (all branches cost money). */
+export function summarizeUsage(messages: Message[], prices: ModelPrice[]): UsageSummary {
+  let usage = EMPTY_USAGE;
+  let cost = 0;
+  let unpriced = false;
+  for (const message of messages) {
+    if (!message.usage) continue;
+    usage = addUsage(usage, message.usage);
+    const messageCost = estimateCost(message.usage, prices);
+    if (messageCost === null) unpriced = true;
+    else cost += messageCost;
+  }
+  return { usage, cost, unpriced };
+}
+
+/** Cost of a summary for display; null when none of it could be priced. */
+export function summaryCost(summary: UsageSummary): number | null {
+  return summary.unpriced && summary.cost === 0 ? null : summary.cost;
+}
+
+export function formatTokens(count: number): string {
+  if (count < 1000) return String(count);
+  if (count < 1_000_000) return `${(count / 1000).toFixed(count < 10_000 ? 1 : 0)}k`;
+  return `${(count / 1_000_000).toFixed(1)}M`;
+}
+
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0';
+  if (usd < 0.01) return '<$0.01';
+  return `$${usd.toFixed(2)}`;
+}
+
+let cachedRaw: string | null | undefined;
+let cachedPrices: ModelPrice[] = DEFAULT_PRICES;
+
+/** Current price table from the saved settings; the same array until the settings change. */
+export function getPriceTable(): ModelPrice[] {
+  const raw = localStorage.getItem(SETTINGS_KEY);
+  if (raw === cachedRaw) return cachedPrices;
+  cachedRaw = raw;
+  try {
+    const pricing = raw ? JSON.parse(raw)?.web?.pricing : undefined;
+    cachedPrices = Array.isArray(pricing) ? pricing : DEFAULT_PRICES;
+  } catch {
+    cachedPrices = DEFAULT_PRICES;
+  }
+  return cachedPrices;
+}
+
+/** Notified when settings are saved in this tab or another one. */
+export function subscribePriceTable(listener: () => void): () => void {
+  window.addEventListener(SETTINGS_CHANGED_EVENT, listener);
+  window.addEventListener('storage', listener);
+  return () => {
+    window.removeEventListener(SETTINGS_CHANGED_EVENT, listener);
+    window.removeEventListener('storage', listener);
+  };
+}
+
+/** Tooltip text: the full breakdown behind a compact usage label. */
+export function describeUsage(usage: TokenUsage, cost: number | null): string {
+  return [
+    usage.model,
+    `${usage.promptTokens.toLocaleString()} prompt tokens${usage.cachedTokens ? ` (${usage.cachedTokens.toLocaleString()} cached)` : ''}`,
+    `${usage.completionTokens.toLocaleString()} completion tokens`,
+    cost === null ? 'No price configured for the model' : `≈ ${formatCost(cost)}`,
+  ].filter(Boolean).join('\n');
+}
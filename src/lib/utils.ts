@@ -17,3 +17,20 @@ export function formatDate(date: Date | string): string {
 export function generateId(): string {
   return Math.random().toString(36).substring(2, 9);
 }
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Save text as a file through a temporary object URL. */
+export function downloadFile(filename: string, content: BlobPart, mimeType = 'text/plain') {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoked once the click has been handled; some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,110 @@
+// Client for the backend's workspace file endpoints. Paths are relative to the workspace root
+// (~/.nanobot/workspace) and use "/" separators; "" is the root itself.
+
+export const WORKSPACE_ROOT = '~/.nanobot/workspace';
+
+export interface WorkspaceEntry {
+  name: string;
+  path: string;
+  type: 'file' | 'directory';
+  size?: number; // bytes, files only
+  modifiedAt?: string; // ISO date
+}
+
+export type PreviewKind = 'markdown' | 'json' | 'image' | 'text';
+
+const IMAGE_EXTENSIONS = new Set(['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp', 'ico']);
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'log', 'csv', 'tsv', 'xml', 'html', 'css', 'js', 'jsx', 'ts', 'tsx', 'mjs', 'cjs', 'py', 'sh', 'bash',
+  'yml', 'yaml', 'toml', 'ini', 'cfg', 'conf', 'env', 'go', 'rs', 'java', 'kt', 'c', 'h', 'cpp', 'hpp', 'sql', 'jsonl',
+]);
+// Larger text files are offered for download only
+export const MAX_PREVIEW_BYTES = 1024 * 1024;
+
+export function parentPath(path: string): string {
+  return path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+}
+
+export function joinPath(directory: string, name: string): string {
+  return directory ? `${directory}/${name}` : name;
+}
+
+/** How a file can be shown in the browser, by extension; null for binaries and unknown types. */
+export function previewKind(path: string): PreviewKind | null {
+  const name = path.split('/').pop() || '';
+  const extension = name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+  if (extension === 'json') return 'json';
+  if (IMAGE_EXTENSIONS.has(extension)) return 'image';
+  if (TEXT_EXTENSIONS.has(extension) || !extension) return 'text'; // README, Makefile, ...
+  return null;
+}
+
+/**
+ * Workspace path of a file reported by a tool step, or null when it lies outside the workspace.
+ * Accepts relative paths and absolute ones under ~/.nanobot/workspace.
+ */
+export function toWorkspacePath(file: string): string | null {
+  const normalized = file.replace(/\\/g, '/');
+  const marker = '.nanobot/workspace';
+  const index = normalized.indexOf(marker);
+  if (index >= 0) return normalized.slice(index + marker.length).replace(/^\/+/, '');
+  if (normalized.startsWith('/') || normalized.startsWith('~') || /^[A-Za-z]:\//.test(normalized)) return null;
+  return normalized.replace(/^\.\//, '');
+}
+
+/** Route of the workspace browser with a file or directory selected. */
+export function workspaceLink(path: string): string {
+  return `/workspace?path=${encodeURIComponent(path)}`;
+}
+
+export function workspaceFileUrl(path: string, download = false): string {
+  return `/api/workspace/file?path=${encodeURIComponent(path)}${download ? '&download=1' : ''}`;
+}
+
+// The backend answers errors with { error } where it can
+async function check(response: Response): Promise<Response> {
+  if (response.ok) return response;
+  let message = `API error: ${response.status}`;
+  try {
+    const data = await response.json();
+    if (typeof data?.error === 'string') message = data.error;
+  } catch {
+    // not JSON
+  }
+  throw new Error(message);
+}
+
+/** Entries of one directory, directories first. */
+export async function listWorkspace(path = ''): Promise<WorkspaceEntry[]> {
+  const response = await check(await fetch(`/api/workspace/list?path=${encodeURIComponent(path)}`));
+  const data = await response.json();
+  const entries: WorkspaceEntry[] = Array.isArray(data.entries) ? data.entries : [];
+  return entries.sort((a, b) => (a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'directory' ? -1 : 1));
+}
+
+export async function readWorkspaceText(path: string): Promise<string> {
+  const response = await check(await fetch(workspaceFileUrl(path)));
+  return response.text();
+}
+
+/** Upload files into a directory; existing files with the same name are replaced. */
+export async function uploadWorkspaceFiles(directory: string, files: File[]): Promise<void> {
+  const form = new FormData();
+  form.append('path', directory);
+  for (const file of files) form.append('files', file, file.name);
+  await check(await fetch('/api/workspace/upload', { method: 'POST', body: form }));
+}
+
+export async function renameWorkspaceEntry(path: string, newPath: string): Promise<void> {
+  await check(await fetch('/api/workspace/rename', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ path, newPath }),
+  }));
+}
+
+/** Delete a file, or a directory with everything in it. */
+export async function deleteWorkspaceEntry(path: string): Promise<void> {
+  await check(await fetch(`/api/workspace/file?path=${encodeURIComponent(path)}`, { method: 'DELETE' }));
+}
@@ -1,53 +1,178 @@
-import { useState, useRef, useEffect, memo, useCallback } from 'react';
+import { useState, useRef, useEffect, useMemo, memo, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { Link, useNavigate } from 'react-router-dom';
 import { Button } from '../components/ui/Button';
-import { useSession } from '../contexts/SessionContext';
-import type { Message, ToolCall, ProgressStep } from '../types/chat';
+import { Markdown } from '../components/ui/Markdown';
+import { useSession, type Session } from '../contexts/SessionContext';
+import { useSnippets } from '../contexts/SnippetContext';
+import type { ApprovalRequest, Attachment, FileDiff, Message, MessageBookmark, MessageFeedback, MessageQuote, MessageReasoning, PendingMessage, ToolCall, ProgressStep, TokenUsage, ToolStep, ToolStepStatus } from '../types/chat';
+import { chatStream, upsertProgressStep, cancelChat, fetchBackend, isAbortError, toChatHistory, toQuoteFields, BackendUnreachableError, StreamInterruptedError, type ConnectionStatus } from '../lib/chatStream';
+import { toPendingMessage } from '../lib/outbox';
+import { getPathTo, getSiblings, getThread, indexChildren } from '../lib/messageTree';
+import { diffWords } from '../lib/diff';
+import { filesFromDataTransfer, isImage, toPendingAttachment, type PendingAttachment } from '../lib/attachments';
+import { deleteAttachmentFiles, getAttachmentFile, putAttachmentFile } from '../lib/attachmentStore';
+import { formatDate, formatFileSize, generateId } from '../lib/utils';
+import { findSlashCommand, getSlashSuggestions, parseSlashCommand, type SlashCommand, type SlashSuggestion } from '../lib/slashCommands';
+import { appendTodo } from '../lib/todos';
+import { PERSONA_FILES, isPersonaFile } from '../lib/persona';
+import { useRegisterSlashCommands, useSlashCommands } from '../hooks/useSlashCommands';
+import { useMessageSearch } from '../hooks/useMessageSearch';
+import type { SearchFilters } from '../lib/searchIndex';
+import { EXPORT_FORMATS, downloadSession } from '../lib/sessionExport';
+import { FEEDBACK_REASONS, answeringAgent, sendFeedback } from '../lib/feedback';
+import { getApprovalPolicies, policyFor, sendApprovalDecision, type ApprovalDecision } from '../lib/toolApproval';
+import { diffHunks, diffStats, sideBySideRows, unifiedPatch, type DiffLine } from '../lib/fileDiff';
+import { highlightLine, languageForPath, type SyntaxTokenType } from '../lib/syntax';
+import { toWorkspacePath, workspaceLink } from '../lib/workspace';
+import { TOOL_STEP_STATUSES, finishToolSteps, formatDuration, recordToolStep, stepDuration, timelineDuration } from '../lib/toolTimeline';
+import { usePriceTable } from '../hooks/usePriceTable';
+import { useReasoningDisplay } from '../hooks/useReasoningDisplay';
+import { appendReasoning, endReasoning, formatThoughtDuration, toMessageReasoning, type ReasoningTrace } from '../lib/reasoning';
+import { EMPTY_USAGE, addUsage, describeUsage, estimateCost, formatCost, formatTokens, summarizeUsage, summaryCost, totalTokens } from '../lib/usage';
+import { extractVariables, fillSnippet, type Snippet } from '../lib/snippets';
+import { getMentionSuggestions, parseMentions, splitMentions, stripMentions, type MentionSuggestion } from '../lib/mentions';
 
 // Session Tabs - REMOVED: duplicates sidebar functionality
 
-// Tool Details Panel - slide-out panel
-const ToolDetailsPanel = memo(function ToolDetailsPanel({ 
-  isOpen, 
-  onClose, 
-  progressSteps,
-  toolCalls 
-}: { 
-  isOpen: boolean; 
+const STEP_STATUS_ICONS: Record<ToolStepStatus, { icon: string; className: string }> = {
+  running: { icon: '…', className: 'text-blue-600' },
+  completed: { icon: '✓', className: 'text-green-600' },
+  error: { icon: '✗', className: 'text-red-600' },
+  incomplete: { icon: '■', className: 'text-amber-600' },
+};
+
+function StepStatusIcon({ status }: { status: ToolStepStatus }) {
+  const { icon, className } = STEP_STATUS_ICONS[status];
+  return <span className={`w-4 text-center ${className}`} title={status}>{icon}</span>;
+}
+
+const SYNTAX_CLASSES: Record<SyntaxTokenType, string> = {
+  keyword: 'text-purple-700 dark:text-purple-300',
+  string: 'text-green-700 dark:text-green-300',
+  comment: 'text-[#999999] italic',
+  number: 'text-amber-700 dark:text-amber-300',
+  plain: '',
+};
+
+const DIFF_LINE_CLASSES: Record<DiffLine['type'], string> = {
+  context: '',
+  added: 'bg-green-50 dark:bg-green-900/20',
+  removed: 'bg-red-50 dark:bg-red-900/20',
+};
+
+const DIFF_MARKERS: Record<DiffLine['type'], string> = { context: ' ', added: '+', removed: '-' };
+
+function DiffCode({ line, language }: { line: DiffLine; language: string | null }) {
+  return (
+    <td className="px-2 whitespace-pre text-[#1A1A1A] dark:text-white">
+      <span className="select-none text-[#999999] mr-1">{DIFF_MARKERS[line.type]}</span>
+      {highlightLine(line.text, language).map((token, i) => (
+        <span key={i} className={SYNTAX_CLASSES[token.type]}>{token.text}</span>
+      ))}
+    </td>
+  );
+}
+
+function LineNumber({ value }: { value: number | null }) {
+  return <td className="px-2 text-right select-none text-[#999999] border-r border-[#E5E5E5] dark:border-[#444444]">{value ?? ''}</td>;
+}
+
+// A file from a tool step; links into the workspace browser when it lives in the workspace
+function WorkspaceFileLink({ file, className }: { file: string; className?: string }) {
+  const path = toWorkspacePath(file);
+  if (path === null) return <span className={className} title={file}>{file}</span>;
+  return (
+    <Link to={workspaceLink(path)} className={`${className || ''} hover:underline`} title={`Open ${path} in the workspace`}>
+      {file}
+    </Link>
+  );
+}
+
+// Before/after of a file an agent edited, unified or side by side
+const DiffViewer = memo(function DiffViewer({ diff }: { diff: FileDiff }) {
+  const [mode, setMode] = useState<'unified' | 'split'>('unified');
+  const hunks = useMemo(() => diffHunks(diff), [diff]);
+  const patch = useMemo(() => unifiedPatch(diff, hunks), [diff, hunks]);
+  const stats = diffStats(hunks);
+  const language = languageForPath(diff.path);
+
+  return (
+    <div className="border border-[#E5E5E5] dark:border-[#444444] rounded-lg overflow-hidden">
+      <div className="px-2 py-1.5 flex items-center gap-2 bg-[#F5F5F5] dark:bg-[#333333] text-xs">
+        {diff.path
+          ? <WorkspaceFileLink file={diff.path} className="flex-1 min-w-0 truncate font-mono text-[#1A1A1A] dark:text-white" />
+          : <span className="flex-1 min-w-0 truncate font-mono text-[#1A1A1A] dark:text-white">file</span>}
+        <span className="text-green-600">+{stats.added}</span>
+        <span className="text-red-600">−{stats.removed}</span>
+        <div className="flex rounded-md border border-[#E5E5E5] dark:border-[#444444] overflow-hidden">
+          {(['unified', 'split'] as const).map(value => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              className={`px-2 py-0.5 ${mode === value ? 'bg-[#1A1A1A] dark:bg-white text-white dark:text-[#1A1A1A]' : 'text-[#666666] dark:text-[#999999]'}`}
+            >
+              {value === 'unified' ? 'Unified' : 'Side by side'}
+            </button>
+          ))}
+        </div>
+        <CopyButton text={patch} label="Copy patch" />
+      </div>
+      {hunks.length === 0 ? (
+        <p className="p-3 text-xs text-[#999999]">No changes</p>
+      ) : (
+        <div className="overflow-x-auto max-h-96 bg-white dark:bg-[#242424]">
+          <table className="w-full text-xs font-mono leading-5 border-collapse">
+            {hunks.map((hunk, h) => (
+              <tbody key={h}>
+                <tr className="bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300">
+                  <td colSpan={mode === 'unified' ? 3 : 4} className="px-2">{hunk.header}</td>
+                </tr>
+                {mode === 'unified'
+                  ? hunk.lines.map((line, i) => (
+                    <tr key={i} className={DIFF_LINE_CLASSES[line.type]}>
+                      <LineNumber value={line.oldLine} />
+                      <LineNumber value={line.newLine} />
+                      <DiffCode line={line} language={language} />
+                    </tr>
+                  ))
+                  : sideBySideRows(hunk.lines).map((row, i) => (
+                    <tr key={i}>
+                      <LineNumber value={row.left?.oldLine ?? null} />
+                      {row.left ? <DiffCode line={row.left} language={language} /> : <td className="bg-[#FAFAFA] dark:bg-[#1F1F1F]" />}
+                      <LineNumber value={row.right?.newLine ?? null} />
+                      {row.right ? <DiffCode line={row.right} language={language} /> : <td className="bg-[#FAFAFA] dark:bg-[#1F1F1F]" />}
+                    </tr>
+                  ))}
+              </tbody>
+            ))}
+          </table>
+        </div>
+      )}
+    </div>
+  );
+});
+
+// Tool Details Panel - slide-out panel with one answer's tool timeline
+const ToolDetailsPanel = memo(function ToolDetailsPanel({
+  message,
+  onClose
+}: {
+  message: Message;
   onClose: () => void;
-  progressSteps: ProgressStep[];
-  toolCalls: ToolCall[];
 }) {
-  interface ToolItem {
-    id: string;
-    name: string;
-    status?: string;
-    content?: string;
-    action?: string | null;
-    arguments?: Record<string, unknown>;
-    result?: string | undefined;
-    isProgress: boolean;
-  }
-  
-  const allTools: ToolItem[] = [
-    ...progressSteps.map((step, i) => ({
-      id: `progress-${i}`,
-      name: step.tool || 'Unknown',
-      action: step.action,
-      status: step.status,
-      content: step.content,
-      isProgress: true
-    })),
-    ...(toolCalls || []).map((tc, i) => ({
-      id: tc.id || `call-${i}`,
-      name: tc.name,
-      arguments: tc.arguments,
-      result: tc.result,
-      isProgress: false
-    }))
-  ];
-
-  if (!isOpen) return null;
+  const [toolFilter, setToolFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState<ToolStepStatus | null>(null);
+  const steps = useMemo(() => message.toolSteps || [], [message]);
+  const toolNames = useMemo(
+    () => [...new Set([...steps.map(s => s.tool), ...(message.toolCalls || []).map(c => c.name)])].sort(),
+    [steps, message]
+  );
+  const visibleSteps = steps.filter(s => (!toolFilter || s.tool === toolFilter) && (!statusFilter || s.status === statusFilter));
+  // Tool calls carry no status, so only the tool filter applies to them
+  const visibleCalls = statusFilter ? [] : (message.toolCalls || []).filter(c => !toolFilter || c.name === toolFilter);
+  const hasDiffs = steps.some(s => s.diff);
 
   return (
     <>
@@ -63,45 +188,81 @@ const ToolDetailsPanel = memo(function ToolDetailsPanel({
         animate={{ x: 0 }}
         exit={{ x: '100%' }}
         transition={{ type: 'spring', damping: 25, stiffness: 200 }}
-        className="fixed right-0 top-0 bottom-0 w-[400px] max-w-[90vw] bg-white dark:bg-[#1A1A1A] border-l border-[#E5E5E5] dark:border-[#333333] z-50 flex flex-col shadow-xl"
+        className={`fixed right-0 top-0 bottom-0 ${hasDiffs ? 'w-[760px]' : 'w-[400px]'} max-w-[90vw] bg-white dark:bg-[#1A1A1A] border-l border-[#E5E5E5] dark:border-[#333333] z-50 flex flex-col shadow-xl`}
       >
         <div className="flex items-center justify-between px-4 py-3 border-b border-[#E5E5E5] dark:border-[#333333]">
-          <h3 className="font-semibold text-[#1A1A1A] dark:text-white">Tool Execution History</h3>
+          <div className="min-w-0">
+            <h3 className="font-semibold text-[#1A1A1A] dark:text-white">Tool Execution History</h3>
+            <p className="text-xs text-[#999999] truncate">
+              {message.agentId || 'AI'} · {message.timestamp.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+            </p>
+          </div>
           <button onClick={onClose} className="p-1 rounded-md hover:bg-[#F5F5F5] dark:hover:bg-[#333333]">
             <svg className="w-5 h-5 text-[#666666]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
             </svg>
           </button>
         </div>
+        <div className="px-4 py-2 space-y-2 border-b border-[#E5E5E5] dark:border-[#333333]">
+          <select
+            value={toolFilter}
+            onChange={(e) => setToolFilter(e.target.value)}
+            className="w-full px-2 py-1.5 text-xs bg-white dark:bg-[#333333] border border-[#E5E5E5] dark:border-[#444444] rounded-lg text-[#1A1A1A] dark:text-white"
+          >
+            <option value="">All tools</option>
+            {toolNames.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+          <div className="flex flex-wrap gap-1.5">
+            {TOOL_STEP_STATUSES.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setStatusFilter(statusFilter === value ? null : value)}
+                className={`px-2.5 py-1 text-xs rounded-full transition-colors ${statusFilter === value ? 'bg-[#1A1A1A] dark:bg-white text-white dark:text-[#1A1A1A]' : 'bg-[#F5F5F5] dark:bg-[#333333] text-[#666666] dark:text-[#999999] hover:bg-[#E5E5E5] dark:hover:bg-[#444444]'}`}
+              >
+                {label} ({steps.filter(s => s.status === value).length})
+              </button>
+            ))}
+          </div>
+        </div>
         <div className="flex-1 overflow-y-auto p-4 space-y-3">
-          {allTools.length === 0 ? (
-            <p className="text-center text-[#999999] text-sm py-8">No tool executions yet</p>
+          {visibleSteps.length === 0 && visibleCalls.length === 0 ? (
+            <p className="text-center text-[#999999] text-sm py-8">
+              {steps.length === 0 && !message.toolCalls?.length ? 'No tool executions for this answer' : 'No tool executions match the filters'}
+            </p>
           ) : (
-            allTools.map((tool) => (
-              <div key={tool.id} className="border rounded-lg overflow-hidden border-[#E5E5E5] dark:border-[#444444]">
-                <div className="px-3 py-2 flex items-center gap-2 bg-[#F5F5F5] dark:bg-[#333333]">
-                  {tool.status === 'completed' && <span className="text-green-600">✓</span>}
-                  {tool.status === 'error' && <span className="text-red-600">✗</span>}
-                  <span className="font-medium text-sm text-[#1A1A1A] dark:text-white">{tool.name}</span>
-                </div>
-                <div className="p-3 bg-white dark:bg-[#242424] text-xs">
-                  {tool.isProgress ? (
-                    tool.content && <p className="text-[#666666]">{tool.content}</p>
-                  ) : (
-                    <>
-                      <pre className="mt-1 p-2 bg-[#F5F5F5] dark:bg-[#333333] rounded overflow-x-auto text-[#1A1A1A] dark:text-white">
-                        {JSON.stringify(tool.arguments, null, 2)}
-                      </pre>
-                      {tool.result && (
-                        <pre className="mt-2 p-2 bg-blue-50 dark:bg-blue-900/20 rounded overflow-x-auto text-[#1A1A1A] dark:text-white max-h-40">
-                          {typeof tool.result === 'string' ? tool.result : JSON.stringify(tool.result, null, 2)}
+            <>
+              {visibleSteps.map((step) => {
+                const duration = stepDuration(step);
+                return (
+                  <div key={step.id} className="border rounded-lg overflow-hidden border-[#E5E5E5] dark:border-[#444444]">
+                    <div className="px-3 py-2 flex items-center gap-2 bg-[#F5F5F5] dark:bg-[#333333]">
+                      <StepStatusIcon status={step.status} />
+                      <span className="font-medium text-sm text-[#1A1A1A] dark:text-white">{step.tool}</span>
+                      {step.action && <span className="text-xs text-[#666666] dark:text-[#999999]">{step.action}</span>}
+                      <span className="ml-auto text-xs text-[#999999]" title={`Started ${new Date(step.startedAt).toLocaleTimeString()}${step.endedAt ? `, ended ${new Date(step.endedAt).toLocaleTimeString()}` : ''}`}>
+                        {duration === null ? 'running' : formatDuration(duration)}
+                      </span>
+                    </div>
+                    <div className="p-3 bg-white dark:bg-[#242424] text-xs space-y-2">
+                      {step.file && <p className="font-mono text-[#666666] dark:text-[#999999] break-all"><WorkspaceFileLink file={step.file} /></p>}
+                      {step.content && <p className="text-[#666666] whitespace-pre-wrap">{step.content}</p>}
+                      {step.arguments && (
+                        <pre className="p-2 bg-[#F5F5F5] dark:bg-[#333333] rounded overflow-x-auto text-[#1A1A1A] dark:text-white">
+                          {JSON.stringify(step.arguments, null, 2)}
                         </pre>
                       )}
-                    </>
-                  )}
-                </div>
-              </div>
-            ))
+                      {step.diff && <DiffViewer diff={step.diff} />}
+                      {step.result && (
+                        <pre className="p-2 bg-blue-50 dark:bg-blue-900/20 rounded overflow-x-auto text-[#1A1A1A] dark:text-white max-h-40">
+                          {step.result}
+                        </pre>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+              {visibleCalls.map((call, i) => <ToolCallItem key={call.id || `call-${i}`} toolCall={call} />)}
+            </>
           )}
         </div>
       </motion.div>
@@ -109,8 +270,52 @@ const ToolDetailsPanel = memo(function ToolDetailsPanel({
   );
 });
 
+// Collapsible timeline of the tools an answer ran, under its content
+const ToolTimeline = memo(function ToolTimeline({ steps, onOpenDetails }: { steps: ToolStep[]; onOpenDetails?: () => void }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const total = timelineDuration(steps);
+  const failed = steps.filter(s => s.status === 'error').length;
+
+  return (
+    <div className="mt-2 w-full border border-[#E5E5E5] dark:border-[#444444] rounded-lg overflow-hidden">
+      <div className="flex items-center bg-[#F5F5F5] dark:bg-[#333333]">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex-1 px-3 py-1.5 flex items-center gap-2 text-left text-xs text-[#666666] dark:text-[#999999] hover:text-[#1A1A1A] dark:hover:text-white"
+        >
+          <motion.span animate={{ rotate: isExpanded ? 90 : 0 }}>▸</motion.span>
+          <span>{steps.length} tool step{steps.length === 1 ? '' : 's'}{total !== null && ` · ${formatDuration(total)}`}</span>
+          {failed > 0 && <span className="text-red-600">{failed} failed</span>}
+        </button>
+        {onOpenDetails && (
+          <button onClick={onOpenDetails} className="px-3 py-1.5 text-xs text-blue-600 dark:text-blue-400 hover:underline">
+            Details
+          </button>
+        )}
+      </div>
+      <AnimatePresence initial={false}>
+        {isExpanded && (
+          <motion.ol initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }} className="overflow-hidden bg-white dark:bg-[#2a2a2a] divide-y divide-[#F0F0F0] dark:divide-[#333333]">
+            {steps.map(step => {
+              const duration = stepDuration(step);
+              return (
+                <li key={step.id} className="px-3 py-1.5 flex items-center gap-2 text-xs">
+                  <StepStatusIcon status={step.status} />
+                  <span className="font-mono font-medium text-[#1A1A1A] dark:text-white">{step.tool}</span>
+                  <span className="flex-1 min-w-0 truncate text-[#666666] dark:text-[#999999]">{[step.action, step.file].filter(Boolean).join(' · ')}</span>
+                  <span className="shrink-0 text-[#999999]">{duration === null ? '' : formatDuration(duration)}</span>
+                </li>
+              );
+            })}
+          </motion.ol>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+});
+
 // Copy Button
-const CopyButton = memo(function CopyButton({ text }: { text: string }) {
+const CopyButton = memo(function CopyButton({ text, label }: { text: string; label?: string }) {
   const [copied, setCopied] = useState(false);
   
   const handleCopy = async () => {
@@ -120,7 +325,7 @@ const CopyButton = memo(function CopyButton({ text }: { text: string }) {
   };
   
   return (
-    <button onClick={handleCopy} className="p-1 rounded hover:bg-[#E5E5E5] dark:hover:bg-[#444444] text-[#999999]" title={copied ? 'Copied!' : 'Copy'}>
+    <button onClick={handleCopy} className="p-1 rounded hover:bg-[#E5E5E5] dark:hover:bg-[#444444] text-[#999999] flex items-center gap-1 text-xs" title={copied ? 'Copied!' : label || 'Copy'}>
       {copied ? (
         <svg className="w-4 h-4 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
@@ -130,10 +335,198 @@ const CopyButton = memo(function CopyButton({ text }: { text: string }) {
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
         </svg>
       )}
+      {label && <span>{copied ? 'Copied!' : label}</span>}
     </button>
   );
 });
 
+const FEEDBACK_ICONS: Record<MessageFeedback['rating'], string> = {
+  up: 'M14 10h4.764a2 2 0 011.789 2.894l-3.5 7A2 2 0 0115.263 21h-4.017c-.163 0-.326-.02-.485-.06L7 20m7-10V5a2 2 0 00-2-2h-.095c-.5 0-.905.405-.905.905 0 .714-.211 1.412-.608 2.006L7 11v9m7-10h-2M7 20H5a2 2 0 01-2-2v-6a2 2 0 012-2h2.5',
+  down: 'M10 14H5.236a2 2 0 01-1.789-2.894l3.5-7A2 2 0 018.736 3h4.018a2 2 0 01.485.06l3.76.94m-7 10v5a2 2 0 002 2h.096c.5 0 .905-.405.905-.904 0-.715.211-1.413.608-2.008L17 13V4m-7 10h2m5-10h2a2 2 0 012 2v6a2 2 0 01-2 2h-2.5',
+};
+
+// Thumbs next to CopyButton; the current rating is filled in
+const FeedbackButtons = memo(function FeedbackButtons({
+  rating,
+  onRate
+}: {
+  rating?: MessageFeedback['rating'];
+  onRate: (rating: MessageFeedback['rating']) => void;
+}) {
+  return (
+    <>
+      {(['up', 'down'] as const).map(value => (
+        <button
+          key={value}
+          onClick={() => onRate(value)}
+          className={`p-1 rounded hover:bg-[#E5E5E5] dark:hover:bg-[#444444] ${rating === value ? (value === 'up' ? 'text-green-600' : 'text-red-500') : 'text-[#999999]'}`}
+          title={value === 'up' ? 'Good answer' : 'Bad answer'}
+        >
+          <svg className="w-4 h-4" fill={rating === value ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={FEEDBACK_ICONS[value]} />
+          </svg>
+        </button>
+      ))}
+    </>
+  );
+});
+
+// Optional reason and comment for a rating, sent together with it
+function FeedbackForm({
+  rating,
+  feedback,
+  onSubmit,
+  onCancel
+}: {
+  rating: MessageFeedback['rating'];
+  feedback?: MessageFeedback;
+  onSubmit: (feedback: MessageFeedback) => void;
+  onCancel: () => void;
+}) {
+  const sameRating = feedback?.rating === rating;
+  const [reason, setReason] = useState(sameRating ? feedback.reason : undefined);
+  const [comment, setComment] = useState(sameRating ? feedback.comment ?? '' : '');
+
+  const submit = () => onSubmit({
+    rating,
+    ...(reason && { reason }),
+    ...(comment.trim() && { comment: comment.trim() }),
+    createdAt: new Date().toISOString(),
+  });
+
+  return (
+    <div className="w-full min-w-[280px] mt-2 p-3 space-y-2 bg-white dark:bg-[#2A2A2A] border border-[#E5E5E5] dark:border-[#444444] rounded-xl">
+      <p className="text-xs text-[#666666] dark:text-[#999999]">{rating === 'up' ? 'What was good?' : 'What went wrong?'} (optional)</p>
+      <div className="flex flex-wrap gap-1.5">
+        {FEEDBACK_REASONS[rating].map(option => (
+          <button
+            key={option}
+            onClick={() => setReason(reason === option ? undefined : option)}
+            className={`px-2.5 py-1 text-xs rounded-full transition-colors ${reason === option ? 'bg-[#1A1A1A] dark:bg-white text-white dark:text-[#1A1A1A]' : 'bg-[#F5F5F5] dark:bg-[#333333] text-[#666666] dark:text-[#999999] hover:bg-[#E5E5E5] dark:hover:bg-[#444444]'}`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+      <textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); submit(); }
+          if (e.key === 'Escape') onCancel();
+        }}
+        rows={2}
+        placeholder="Comment"
+        className="w-full px-3 py-2 text-sm bg-white dark:bg-[#333333] border border-[#E5E5E5] dark:border-[#444444] rounded-lg resize-none focus:outline-none text-[#1A1A1A] dark:text-white"
+      />
+      <div className="flex justify-end gap-2">
+        <Button variant="secondary" size="sm" onClick={onCancel}>Cancel</Button>
+        <Button size="sm" onClick={submit}>Send feedback</Button>
+      </div>
+    </div>
+  );
+}
+
+// A tool call waiting for the user's decision; the agent run is paused meanwhile
+interface PendingApproval {
+  request: ApprovalRequest;
+  sessionId: string; // the run's session, which need not be the one open when the user decides
+  agentId?: string;
+}
+
+const RISK_STYLES: Record<ApprovalRequest['risk'], string> = {
+  low: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  medium: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+  high: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+};
+
+// Approve, deny, or approve with edited arguments
+const ApprovalCard = memo(function ApprovalCard({
+  approval,
+  onDecide
+}: {
+  approval: PendingApproval;
+  onDecide: (approval: PendingApproval, decision: ApprovalDecision) => Promise<boolean>;
+}) {
+  const { request, agentId } = approval;
+  const [editedArgs, setEditedArgs] = useState<string | null>(null); // JSON text while editing
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const decide = async (decision: ApprovalDecision) => {
+    setIsSending(true);
+    setError(null);
+    if (!(await onDecide(approval, decision))) {
+      setError('The backend did not accept the decision. Try again.');
+      setIsSending(false);
+    }
+  };
+
+  const approveEdited = () => {
+    let args: unknown;
+    try {
+      args = JSON.parse(editedArgs || '');
+    } catch {
+      setError('Arguments must be valid JSON');
+      return;
+    }
+    if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+      setError('Arguments must be a JSON object');
+      return;
+    }
+    decide({ approved: true, arguments: args as Record<string, unknown> });
+  };
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, height: 0 }} className="flex justify-start">
+      <div className="w-full max-w-[70%] p-4 space-y-3 bg-white dark:bg-[#333333] border-2 border-amber-300 dark:border-amber-700 rounded-2xl rounded-bl-md shadow-sm">
+        <div className="flex items-center gap-2 flex-wrap">
+          <span className="text-sm font-medium text-[#1A1A1A] dark:text-white">{agentId || 'AI'} wants to run</span>
+          <span className="px-2 py-0.5 text-sm font-mono rounded bg-[#F5F5F5] dark:bg-[#444444] text-[#1A1A1A] dark:text-white">{request.tool}</span>
+          <span className={`px-2 py-0.5 text-xs rounded-full ${RISK_STYLES[request.risk]}`}>{request.risk} risk</span>
+        </div>
+        {request.reason && <p className="text-xs text-[#666666] dark:text-[#999999]">{request.reason}</p>}
+        {editedArgs === null ? (
+          <pre className="p-2 text-xs font-mono bg-[#F5F5F5] dark:bg-[#2A2A2A] rounded overflow-x-auto max-h-48 text-[#1A1A1A] dark:text-white">
+            {JSON.stringify(request.arguments, null, 2)}
+          </pre>
+        ) : (
+          <textarea
+            value={editedArgs}
+            onChange={(e) => setEditedArgs(e.target.value)}
+            rows={Math.min(12, editedArgs.split('\n').length + 1)}
+            spellCheck={false}
+            autoFocus
+            className="w-full p-2 text-xs font-mono bg-white dark:bg-[#2A2A2A] border border-[#E5E5E5] dark:border-[#444444] rounded resize-y focus:outline-none focus:ring-2 focus:ring-[#1A1A1A] dark:focus:ring-white text-[#1A1A1A] dark:text-white"
+          />
+        )}
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        <div className="flex justify-end gap-2">
+          {editedArgs === null ? (
+            <>
+              <Button variant="ghost" size="sm" disabled={isSending} onClick={() => setEditedArgs(JSON.stringify(request.arguments, null, 2))}>Edit arguments</Button>
+              <Button variant="secondary" size="sm" disabled={isSending} onClick={() => decide({ approved: false })}>Deny</Button>
+              <Button size="sm" disabled={isSending} onClick={() => decide({ approved: true })}>Approve</Button>
+            </>
+          ) : (
+            <>
+              <Button variant="ghost" size="sm" disabled={isSending} onClick={() => { setEditedArgs(null); setError(null); }}>Cancel edit</Button>
+              <Button size="sm" disabled={isSending} onClick={approveEdited}>Approve with edits</Button>
+            </>
+          )}
+        </div>
+      </div>
+    </motion.div>
+  );
+});
+
+type AgentResponseStatus = 'pending' | 'streaming' | 'completed' | 'error' | 'stopped';
+
+interface AgentResponse {
+  content: string;
+  status: AgentResponseStatus;
+}
+
 const DEFAULT_MESSAGES: Message[] = [
   { id: 'welcome', role: 'assistant', content: "Hello! I'm your AI assistant powered by nanobot. How can I help you today?", timestamp: new Date() }
 ];
@@ -141,10 +534,12 @@ const DEFAULT_MESSAGES: Message[] = [
 // Multi-Agent Card Component
 const MultiAgentCard = memo(function MultiAgentCard({ 
   agentId, 
-  response 
+  response,
+  onCancel
 }: { 
   agentId: string; 
-  response: { content: string; status: 'pending' | 'streaming' | 'completed' | 'error' };
+  response: AgentResponse;
+  onCancel?: () => void;
 }) {
   const agentIcons: Record<string, string> = {
     router: '',
@@ -161,6 +556,7 @@ const MultiAgentCard = memo(function MultiAgentCard({
   const isStreaming = response.status === 'streaming';
   const isCompleted = response.status === 'completed';
   const isError = response.status === 'error';
+  const isStopped = response.status === 'stopped';
 
   return (
     <motion.div
@@ -181,11 +577,21 @@ const MultiAgentCard = memo(function MultiAgentCard({
           )}
           {isCompleted && <span className="text-xs text-green-600">✓ Done</span>}
           {isError && <span className="text-xs text-red-600">✗ Error</span>}
+          {isStopped && <span className="text-xs text-amber-600">■ Stopped</span>}
+          {(isPending || isStreaming) && onCancel && (
+            <button onClick={onCancel} className="text-xs px-1.5 py-0.5 rounded text-[#666666] dark:text-[#999999] hover:text-red-600 hover:bg-[#F5F5F5] dark:hover:bg-[#444444]" title={`Stop ${agentId}`}>
+              Stop
+            </button>
+          )}
         </div>
         <div className="px-4 py-3 bg-white dark:bg-[#333333] border border-[#E5E5E5] dark:border-[#444444] rounded-2xl rounded-bl-md shadow-sm max-h-[200px] overflow-y-auto">
-          <p className="text-sm whitespace-pre-wrap leading-relaxed text-[#1A1A1A] dark:text-white">
-            {response.content || (isPending ? 'Waiting...' : isStreaming ? 'Generating response...' : '')}
-          </p>
+          {response.content ? (
+            <Markdown source={response.content} className="text-[#1A1A1A] dark:text-white" />
+          ) : (
+            <p className="text-sm leading-relaxed text-[#888888]">
+              {isPending ? 'Waiting...' : isStreaming ? 'Generating response...' : ''}
+            </p>
+          )}
         </div>
       </div>
     </motion.div>
@@ -193,6 +599,7 @@ const MultiAgentCard = memo(function MultiAgentCard({
 });
 
 const ProgressStepItem = memo(function ProgressStepItem({ step }: { step: ProgressStep }) {
+  const diffStat = useMemo(() => (step.diff ? diffStats(diffHunks(step.diff)) : null), [step.diff]);
   const isRunning = step.status === 'running';
   const isError = step.status === 'error';
   const isCompleted = step.status === 'completed';
@@ -219,7 +626,12 @@ const ProgressStepItem = memo(function ProgressStepItem({ step }: { step: Progre
             </span>
           )}
         </div>
-        {step.file && <div className="text-xs text-gray-500 truncate mt-0.5">{step.file}</div>}
+        {step.file && (
+          <div className="text-xs text-gray-500 truncate mt-0.5">
+            <WorkspaceFileLink file={step.file} />
+            {diffStat && <span className="ml-2"><span className="text-green-600">+{diffStat.added}</span> <span className="text-red-600">−{diffStat.removed}</span></span>}
+          </div>
+        )}
       </div>
     </motion.div>
   );
@@ -275,43 +687,868 @@ const TypingIndicator = memo(function TypingIndicator({ isThinking }: { isThinki
   );
 });
 
-const StreamingContent = memo(function StreamingContent({ content }: { content: string }) {
+// The model's reasoning above an answer; `thinking` while it is still being streamed
+const ReasoningBlock = memo(function ReasoningBlock({ reasoning, thinking }: { reasoning: MessageReasoning; thinking?: boolean }) {
+  const display = useReasoningDisplay();
+  const [open, setOpen] = useState<boolean | null>(null); // null: follow the setting
+  if (display === 'hidden') return null;
+  const isOpen = open ?? display === 'shown';
+
+  return (
+    <div className="mb-1 w-full text-xs">
+      <button
+        onClick={() => setOpen(!isOpen)}
+        className="flex items-center gap-1 text-[#888888] dark:text-[#999999] hover:text-[#1A1A1A] dark:hover:text-white"
+        aria-expanded={isOpen}
+      >
+        <svg className={`w-3 h-3 transition-transform ${isOpen ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        {thinking ? 'Thinking...' : `Thought for ${formatThoughtDuration(reasoning.durationMs ?? 0)}`}
+      </button>
+      {isOpen && (
+        <p className="mt-1 pl-3 border-l-2 border-[#E5E5E5] dark:border-[#444444] text-[#666666] dark:text-[#999999] whitespace-pre-wrap leading-relaxed">
+          {reasoning.content}
+        </p>
+      )}
+    </div>
+  );
+});
+
+const StreamingContent = memo(function StreamingContent({ content, reasoning }: { content: string; reasoning?: ReasoningTrace | null }) {
   return (
     <motion.div initial={{ opacity: 0, y: 20, scale: 0.95 }} animate={{ opacity: 1, y: 0, scale: 1 }} className="flex justify-start">
       <div className="max-w-[70%] flex flex-col items-start">
         <span className="text-xs text-[#888888] dark:text-[#999999] mb-1">AI {new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
-        <div className="px-4 py-3 rounded-2xl bg-white dark:bg-[#333333] border border-[#E5E5E5] dark:border-[#444444] rounded-bl-md shadow-sm">
-          <p className="text-sm whitespace-pre-wrap leading-relaxed text-[#1A1A1A] dark:text-white">
-            {content}
+        {reasoning && (
+          <ReasoningBlock
+            reasoning={{ content: reasoning.content, durationMs: reasoning.endedAt === undefined ? undefined : reasoning.endedAt - reasoning.startedAt }}
+            thinking={reasoning.endedAt === undefined}
+          />
+        )}
+        {content && (
+          <div className="px-4 py-3 rounded-2xl bg-white dark:bg-[#333333] border border-[#E5E5E5] dark:border-[#444444] rounded-bl-md shadow-sm">
+            <Markdown source={content} className="text-[#1A1A1A] dark:text-white" />
             <motion.span animate={{ opacity: [1, 0] }} transition={{ duration: 0.5, repeat: Infinity, repeatType: 'reverse' }} className="inline-block w-2 h-4 bg-[#1A1A1A] dark:bg-white ml-0.5 align-middle" />
-          </p>
-        </div>
+          </div>
+        )}
         <span className="text-xs text-[#888888] dark:text-[#999999] mt-1">Streaming...</span>
       </div>
     </motion.div>
   );
 });
 
-const MessageItem = memo(function MessageItem({ message }: { message: Message }) {
+// A message in the outbox: sent once the backend can be reached, editable or cancellable until then.
+// One the backend turned down shows why and waits to be retried or discarded.
+const PendingMessageItem = memo(function PendingMessageItem({ message, sending, onEdit, onRetry, onCancel }: {
+  message: PendingMessage;
+  sending?: boolean; // being delivered: too late to edit or cancel
+  onEdit: (message: PendingMessage, content: string) => void;
+  onRetry: (message: PendingMessage) => void;
+  onCancel: (message: PendingMessage) => void;
+}) {
+  const [draft, setDraft] = useState<string | null>(null); // null: not editing
+  const canSave = draft !== null && (draft.trim() !== '' || (message.attachments?.length ?? 0) > 0);
+
+  const save = () => {
+    if (!canSave) return;
+    onEdit(message, draft.trim());
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex justify-end">
+      <div className="max-w-[70%] flex flex-col items-end">
+        <div className="flex items-center gap-2 mb-1 text-xs text-[#888888] dark:text-[#999999]">
+          <span className={`flex items-center gap-1 ${message.error ? 'text-red-600' : ''}`} title={`Queued ${new Date(message.queuedAt).toLocaleString()}`}>
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            {sending ? 'Sending...' : message.error ? 'Not sent' : 'Waiting to send'}
+          </span>
+          {draft === null && !sending && (
+            <>
+              {message.error && (
+                <button onClick={() => onRetry(message)} className="px-1.5 py-0.5 rounded hover:bg-[#E5E5E5] dark:hover:bg-[#444444]">Retry</button>
+              )}
+              <button onClick={() => setDraft(message.content)} className="px-1.5 py-0.5 rounded hover:bg-[#E5E5E5] dark:hover:bg-[#444444]">Edit</button>
+              <button onClick={() => onCancel(message)} className="px-1.5 py-0.5 rounded text-red-600 hover:bg-[#E5E5E5] dark:hover:bg-[#444444]">
+                {message.error ? 'Discard' : 'Cancel'}
+              </button>
+            </>
+          )}
+        </div>
+        {draft !== null ? (
+          <div className="w-full min-w-[280px] flex flex-col gap-2">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); save(); }
+                if (e.key === 'Escape') setDraft(null);
+              }}
+              autoFocus
+              rows={3}
+              className="w-full px-4 py-3 text-sm bg-white dark:bg-[#333333] border border-[#E5E5E5] dark:border-[#444444] rounded-2xl resize-y focus:outline-none focus:ring-2 focus:ring-[#1A1A1A] dark:focus:ring-white text-[#1A1A1A] dark:text-white"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" size="sm" onClick={() => setDraft(null)}>Cancel</Button>
+              <Button size="sm" onClick={save} disabled={!canSave}>Save</Button>
+            </div>
+          </div>
+        ) : (
+          <div className="px-4 py-3 rounded-2xl rounded-br-md bg-[#1A1A1A] dark:bg-white text-white dark:text-[#1A1A1A] opacity-60">
+            {message.quote && (
+              <div className="mb-2 pl-3 border-l-2 border-white/40 dark:border-[#1A1A1A]/30 text-xs">
+                <span className="font-medium">↩ {message.quote.author}</span>
+                <span className="block line-clamp-2 whitespace-pre-wrap">{message.quote.excerpt}</span>
+              </div>
+            )}
+            {message.attachments && message.attachments.length > 0 && (
+              <div className={`flex flex-wrap gap-2 ${message.content ? 'mb-2' : ''}`}>
+                {message.attachments.map(attachment => <AttachmentChip key={attachment.id} attachment={attachment} />)}
+              </div>
+            )}
+            {message.content && <p className="text-sm whitespace-pre-wrap leading-relaxed">{message.content}</p>}
+          </div>
+        )}
+        {message.error && !sending && <span className="mt-1 text-xs text-red-600">{message.error}</span>}
+      </div>
+    </div>
+  );
+});
+
+const AttachmentChip = memo(function AttachmentChip({ attachment, onRemove }: { attachment: Attachment; onRemove?: () => void }) {
+  return (
+    <div className="flex items-center gap-2 pl-1 pr-2 py-1 max-w-[220px] bg-[#F5F5F5] dark:bg-[#2A2A2A] border border-[#E5E5E5] dark:border-[#444444] rounded-lg text-xs text-[#1A1A1A] dark:text-white" title={attachment.name}>
+      {attachment.thumbnail ? (
+        <img src={attachment.thumbnail} alt={attachment.name} className="w-8 h-8 rounded object-cover shrink-0" />
+      ) : (
+        <span className="w-8 h-8 rounded bg-[#E5E5E5] dark:bg-[#444444] flex items-center justify-center shrink-0 text-[#666666] dark:text-[#999999]">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={isImage(attachment.mimeType) ? 'M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z' : 'M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z'} />
+          </svg>
+        </span>
+      )}
+      <span className="flex flex-col min-w-0">
+        <span className="truncate font-medium">{attachment.name}</span>
+        <span className="text-[#888888] dark:text-[#999999]">{formatFileSize(attachment.size)}</span>
+      </span>
+      {onRemove && (
+        <button onClick={onRemove} className="ml-1 p-0.5 rounded hover:bg-[#E5E5E5] dark:hover:bg-[#444444] text-[#999999]" title="Remove attachment">
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      )}
+    </div>
+  );
+});
+
+// ‹ 2 / 3 › switcher between sibling branches of a message
+const BranchNavigator = memo(function BranchNavigator({
+  index,
+  count,
+  disabled,
+  onSelect
+}: {
+  index: number;
+  count: number;
+  disabled?: boolean;
+  onSelect: (offset: -1 | 1) => void;
+}) {
+  return (
+    <span className="flex items-center gap-0.5 text-xs text-[#888888] dark:text-[#999999] select-none">
+      <button onClick={() => onSelect(-1)} disabled={disabled || index === 0} className="px-1 rounded hover:bg-[#E5E5E5] dark:hover:bg-[#444444] disabled:opacity-40 disabled:hover:bg-transparent" title="Previous branch">‹</button>
+      <span className="tabular-nums">{index + 1} / {count}</span>
+      <button onClick={() => onSelect(1)} disabled={disabled || index === count - 1} className="px-1 rounded hover:bg-[#E5E5E5] dark:hover:bg-[#444444] disabled:opacity-40 disabled:hover:bg-transparent" title="Next branch">›</button>
+    </span>
+  );
+});
+
+// Word-level comparison of two variants of an assistant answer
+const VariantDiffModal = memo(function VariantDiffModal({
+  variants,
+  initialIndex,
+  onClose
+}: {
+  variants: Message[];
+  initialIndex: number;
+  onClose: () => void;
+}) {
+  const [left, setLeft] = useState(initialIndex > 0 ? initialIndex - 1 : 0);
+  const [right, setRight] = useState(initialIndex > 0 ? initialIndex : Math.min(1, variants.length - 1));
+  const parts = useMemo(() => diffWords(variants[left].content, variants[right].content), [variants, left, right]);
+
+  const variantSelect = (value: number, onChange: (index: number) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="px-2 py-1 text-sm bg-white dark:bg-[#333333] border border-[#E5E5E5] dark:border-[#444444] rounded-lg text-[#1A1A1A] dark:text-white"
+    >
+      {variants.map((v, i) => <option key={v.id} value={i}>Variant {i + 1}{v.agentId ? ` (${v.agentId})` : ''}</option>)}
+    </select>
+  );
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="bg-white dark:bg-[#2A2A2A] rounded-xl shadow-2xl w-full max-w-3xl max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-[#E5E5E5] dark:border-[#333333]">
+          <div className="flex items-center gap-2 text-sm text-[#666666] dark:text-[#999999]">
+            <h2 className="text-lg font-semibold text-[#1A1A1A] dark:text-white mr-2">Compare Variants</h2>
+            {variantSelect(left, setLeft)}
+            <span>→</span>
+            {variantSelect(right, setRight)}
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-[#F5F5F5] dark:hover:bg-[#333333] rounded-lg transition-colors text-[#666666] dark:text-[#999999]">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <div className="flex-1 p-4 overflow-auto text-sm leading-relaxed whitespace-pre-wrap text-[#1A1A1A] dark:text-white">
+          {parts === null && (
+            <p className="text-[#666666] dark:text-[#999999]">These variants are too large to diff. Switch between them with the arrows on the message to compare.</p>
+          )}
+          {parts?.map((part, i) => (
+            <span
+              key={i}
+              className={part.type === 'added'
+                ? 'bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300'
+                : part.type === 'removed'
+                  ? 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 line-through'
+                  : undefined}
+            >
+              {part.value}
+            </span>
+          ))}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+});
+
+// Search across every session; picking a result opens its session at that message
+const GlobalSearchModal = memo(function GlobalSearchModal({
+  onSelect,
+  onClose
+}: {
+  onSelect: (sessionId: string, messageId: string) => void;
+  onClose: () => void;
+}) {
+  const { sessions, availableAgents } = useSession();
+  const [query, setQuery] = useState('');
+  const [role, setRole] = useState<'' | Message['role']>('');
+  const [agentId, setAgentId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  // Date inputs are local days; the end day is inclusive
+  const filters = useMemo<SearchFilters>(() => ({
+    role: role || undefined,
+    agentId: agentId || undefined,
+    from: from ? new Date(`${from}T00:00`) : undefined,
+    to: to ? new Date(new Date(`${to}T00:00`).getTime() + 24 * 60 * 60 * 1000) : undefined,
+  }), [role, agentId, from, to]);
+  const groups = useMessageSearch(query, filters);
+  const sessionNames = useMemo(() => new Map(sessions.map(s => [s.id, s.name])), [sessions]);
+  const hitCount = groups.reduce((sum, g) => sum + g.hits.length, 0);
+
+  const filterClass = 'px-2 py-1 text-xs bg-white dark:bg-[#333333] border border-[#E5E5E5] dark:border-[#444444] rounded-lg text-[#1A1A1A] dark:text-white';
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 bg-black/50 flex items-start justify-center z-50 p-4 pt-[10vh]" onClick={onClose}>
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="bg-white dark:bg-[#2A2A2A] rounded-xl shadow-2xl w-full max-w-2xl max-h-[75vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-[#E5E5E5] dark:border-[#333333] space-y-3">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Escape') onClose(); }}
+            placeholder="Search all sessions..."
+            autoFocus
+            className="w-full px-3 py-2 text-sm rounded-lg border border-[#E5E5E5] dark:border-[#444444] bg-white dark:bg-[#333333] text-[#1A1A1A] dark:text-white placeholder-[#999999] focus:outline-none focus:ring-1 focus:ring-[#1A1A1A] dark:focus:ring-white"
+          />
+          <div className="flex flex-wrap items-center gap-2 text-xs text-[#666666] dark:text-[#999999]">
+            <select value={role} onChange={(e) => setRole(e.target.value as '' | Message['role'])} className={filterClass}>
+              <option value="">Any role</option>
+              <option value="user">You</option>
+              <option value="assistant">Assistant</option>
+            </select>
+            <select value={agentId} onChange={(e) => setAgentId(e.target.value)} className={filterClass}>
+              <option value="">Any agent</option>
+              {availableAgents.map(agent => <option key={agent.id} value={agent.id}>{agent.name}</option>)}
+            </select>
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={filterClass} title="From" />
+            <span>–</span>
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={filterClass} title="To" />
+            {query.trim() && <span className="ml-auto">{hitCount} result{hitCount === 1 ? '' : 's'}</span>}
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto p-2">
+          {!query.trim() ? (
+            <p className="text-sm text-[#999999] text-center py-8">Search messages and tool calls in every session</p>
+          ) : groups.length === 0 ? (
+            <p className="text-sm text-[#999999] text-center py-8">No messages match your search</p>
+          ) : groups.map(group => (
+            <div key={group.sessionId} className="mb-3">
+              <div className="px-2 py-1 text-xs font-medium text-[#666666] dark:text-[#999999] truncate">{sessionNames.get(group.sessionId) || 'Untitled session'}</div>
+              {group.hits.map(hit => (
+                <button
+                  key={hit.message.id}
+                  onClick={() => onSelect(hit.sessionId, hit.message.id)}
+                  className="w-full text-left px-3 py-2 rounded-lg hover:bg-[#F5F5F5] dark:hover:bg-[#333333] transition-colors"
+                >
+                  <div className="flex items-center gap-2 text-xs text-[#999999] mb-0.5">
+                    <span>{hit.message.role === 'user' ? 'You' : (hit.message.agentId || 'AI')}</span>
+                    <span>{formatDate(hit.message.timestamp)}</span>
+                    {hit.inToolCall && <span className="px-1.5 rounded bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400">tool call</span>}
+                  </div>
+                  <p className="text-sm text-[#1A1A1A] dark:text-white line-clamp-2 break-words">
+                    {hit.snippet.map((part, i) => part.match
+                      ? <mark key={i} className="bg-amber-200 dark:bg-amber-700/60 text-inherit rounded-sm">{part.text}</mark>
+                      : <span key={i}>{part.text}</span>)}
+                  </p>
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+});
+
+// Pinned messages of the active session, kept above the conversation
+const PinnedStrip = memo(function PinnedStrip({ pinned, onOpen }: { pinned: Message[]; onOpen: (message: Message) => void }) {
+  return (
+    <div className="shrink-0 px-4 py-2 border-b border-[#E5E5E5] dark:border-[#333333] bg-amber-50/60 dark:bg-amber-900/10 flex items-center gap-2 overflow-x-auto">
+      <span className="shrink-0 text-xs text-amber-700 dark:text-amber-400">📌 Pinned</span>
+      {pinned.map(message => (
+        <button
+          key={message.id}
+          onClick={() => onOpen(message)}
+          className="shrink-0 max-w-[220px] px-2.5 py-1 text-xs rounded-full bg-white dark:bg-[#333333] border border-amber-200 dark:border-amber-800 text-[#1A1A1A] dark:text-white hover:border-amber-400 truncate"
+          title={message.content}
+        >
+          {message.bookmark?.note || message.content.slice(0, 60) || 'Message'}
+        </button>
+      ))}
+    </div>
+  );
+});
+
+// Pinned messages of every session; picking one opens it like a search result
+const BookmarksPanel = memo(function BookmarksPanel({
+  onOpen,
+  onClose
+}: {
+  onOpen: (sessionId: string, messageId: string) => void;
+  onClose: () => void;
+}) {
+  const { sessions, updateMessage } = useSession();
+  const groups = useMemo(() => sessions
+    .map(session => ({
+      session,
+      pinned: session.tree.nodes
+        .filter(m => m.bookmark)
+        .sort((a, b) => b.bookmark!.pinnedAt.localeCompare(a.bookmark!.pinnedAt)),
+    }))
+    .filter(group => group.pinned.length > 0), [sessions]);
+
+  return (
+    <>
+      <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 bg-black/20 z-40" onClick={onClose} />
+      <motion.div
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        exit={{ x: '100%' }}
+        transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+        className="fixed right-0 top-0 bottom-0 w-[400px] max-w-[90vw] bg-white dark:bg-[#1A1A1A] border-l border-[#E5E5E5] dark:border-[#333333] z-50 flex flex-col shadow-xl"
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-[#E5E5E5] dark:border-[#333333]">
+          <h3 className="font-semibold text-[#1A1A1A] dark:text-white">Bookmarks</h3>
+          <button onClick={onClose} className="p-1 rounded-md hover:bg-[#F5F5F5] dark:hover:bg-[#333333]">
+            <svg className="w-5 h-5 text-[#666666] dark:text-[#999999]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-3 space-y-4">
+          {groups.length === 0 && (
+            <p className="text-sm text-[#999999] text-center py-8">No pinned messages yet. Use the pin button on a message to keep it here.</p>
+          )}
+          {groups.map(({ session, pinned }) => (
+            <div key={session.id}>
+              <div className="px-1 mb-1 text-xs font-medium text-[#666666] dark:text-[#999999] truncate">{session.name}</div>
+              <div className="space-y-1">
+                {pinned.map(message => (
+                  <div key={message.id} className="group flex items-start gap-2 p-2 rounded-lg border border-[#E5E5E5] dark:border-[#333333] hover:bg-[#F5F5F5] dark:hover:bg-[#2A2A2A]">
+                    <button onClick={() => onOpen(session.id, message.id)} className="flex-1 min-w-0 text-left">
+                      {message.bookmark!.note && <p className="text-sm font-medium text-amber-700 dark:text-amber-400">{message.bookmark!.note}</p>}
+                      <p className="text-sm text-[#1A1A1A] dark:text-white line-clamp-2">{message.content || 'Message'}</p>
+                      <p className="text-xs text-[#999999] mt-0.5">
+                        {message.role === 'user' ? 'You' : (message.agentId || 'AI')} · pinned {formatDate(message.bookmark!.pinnedAt)}
+                      </p>
+                    </button>
+                    <button
+                      onClick={() => updateMessage(session.id, message.id, { bookmark: undefined })}
+                      className="p-1 rounded opacity-0 group-hover:opacity-100 text-[#999999] hover:text-[#DC2626]"
+                      title="Unpin"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </motion.div>
+    </>
+  );
+});
+
+// Header dropdown exporting the active session
+function ExportMenu({ session }: { session: Session }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button onClick={() => setIsOpen(!isOpen)} className="text-xs px-3 py-1.5 rounded-lg text-[#666666] dark:text-[#999999] hover:text-[#1A1A1A] dark:hover:text-white hover:bg-[#F5F5F5] dark:hover:bg-[#333333]" title="Export this conversation">
+        Export
+      </button>
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            className="absolute right-0 top-full mt-1 w-40 bg-white dark:bg-[#2A2A2A] border border-[#E5E5E5] dark:border-[#444444] rounded-lg shadow-lg py-1 z-30"
+          >
+            {EXPORT_FORMATS.map(format => (
+              <button
+                key={format.value}
+                onClick={() => {
+                  downloadSession(session, format.value);
+                  setIsOpen(false);
+                }}
+                className="w-full px-3 py-2 text-left text-sm text-[#1A1A1A] dark:text-white hover:bg-[#F5F5F5] dark:hover:bg-[#333333]"
+              >
+                {format.label} <span className="text-xs text-[#999999]">.{format.extension}</span>
+              </button>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+// Composer popover listing prompt snippets
+const SnippetPicker = memo(function SnippetPicker({
+  snippets,
+  onPick,
+  onClose
+}: {
+  snippets: Snippet[];
+  onPick: (snippet: Snippet) => void;
+  onClose: () => void;
+}) {
+  const [query, setQuery] = useState('');
+  const q = query.trim().toLowerCase();
+  const matches = q
+    ? snippets.filter(s => s.name.toLowerCase().includes(q) || s.tags.some(t => t.toLowerCase().includes(q)))
+    : snippets;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 4 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 4 }}
+      className="absolute bottom-full left-0 mb-2 w-80 bg-white dark:bg-[#2A2A2A] border border-[#E5E5E5] dark:border-[#444444] rounded-xl shadow-lg z-20 overflow-hidden"
+    >
+      <div className="p-2 border-b border-[#E5E5E5] dark:border-[#444444]">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') onClose();
+            if (e.key === 'Enter' && matches[0]) onPick(matches[0]);
+          }}
+          autoFocus
+          placeholder="Search snippets..."
+          className="w-full px-2 py-1.5 text-sm bg-transparent focus:outline-none text-[#1A1A1A] dark:text-white placeholder:text-[#999999]"
+        />
+      </div>
+      <ul className="max-h-60 overflow-y-auto py-1">
+        {matches.map(snippet => (
+          <li key={snippet.id}>
+            <button onClick={() => onPick(snippet)} className="w-full px-3 py-2 text-left hover:bg-[#F5F5F5] dark:hover:bg-[#333333]">
+              <span className="block text-sm text-[#1A1A1A] dark:text-white truncate">{snippet.name}</span>
+              {snippet.tags.length > 0 && <span className="block text-xs text-[#888888] dark:text-[#999999] truncate">{snippet.tags.map(t => `#${t}`).join(' ')}</span>}
+            </button>
+          </li>
+        ))}
+        {matches.length === 0 && <li className="px-3 py-2 text-sm text-[#999999]">{snippets.length === 0 ? 'No snippets yet' : 'No matches'}</li>}
+      </ul>
+      <Link to="/snippets" className="block px-3 py-2 text-xs text-[#666666] dark:text-[#999999] border-t border-[#E5E5E5] dark:border-[#444444] hover:bg-[#F5F5F5] dark:hover:bg-[#333333]">
+        Manage snippets →
+      </Link>
+    </motion.div>
+  );
+});
+
+// Asks for the {{variables}} of a snippet before it is inserted
+const SnippetVariablesModal = memo(function SnippetVariablesModal({
+  snippet,
+  variables,
+  onSubmit,
+  onClose
+}: {
+  snippet: Snippet;
+  variables: string[];
+  onSubmit: (values: Record<string, string>) => void;
+  onClose: () => void;
+}) {
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <motion.form
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="bg-white dark:bg-[#2A2A2A] rounded-xl shadow-2xl w-full max-w-md flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={(e) => { e.preventDefault(); onSubmit(values); }}
+      >
+        <div className="p-4 border-b border-[#E5E5E5] dark:border-[#333333]">
+          <h2 className="text-lg font-semibold text-[#1A1A1A] dark:text-white">{snippet.name}</h2>
+          <p className="text-xs text-[#666666] dark:text-[#999999]">Fill in the snippet variables</p>
+        </div>
+        <div className="p-4 space-y-3">
+          {variables.map((name, i) => (
+            <label key={name} className="block">
+              <span className="block text-sm font-medium text-[#1A1A1A] dark:text-white mb-1">{name}</span>
+              <input
+                value={values[name] || ''}
+                onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                autoFocus={i === 0}
+                className="w-full h-10 px-3 text-sm bg-white dark:bg-[#333333] border border-[#E5E5E5] dark:border-[#444444] rounded-lg focus:outline-none focus:ring-2 focus:ring-[#1A1A1A] dark:focus:ring-white text-[#1A1A1A] dark:text-white"
+              />
+            </label>
+          ))}
+        </div>
+        <div className="flex justify-end gap-2 p-4 border-t border-[#E5E5E5] dark:border-[#333333]">
+          <Button type="button" variant="secondary" onClick={onClose}>Cancel</Button>
+          <Button type="submit">Insert</Button>
+        </div>
+      </motion.form>
+    </motion.div>
+  );
+});
+
+// Tokens and estimated cost of one answer, shown beside its timestamp
+function UsageLabel({ usage }: { usage: TokenUsage }) {
+  const prices = usePriceTable();
+  const cost = estimateCost(usage, prices);
+  return (
+    <span className="text-xs text-[#AAAAAA] dark:text-[#777777] tabular-nums" title={describeUsage(usage, cost)}>
+      {formatTokens(totalTokens(usage))} tokens{cost !== null && ` · ${formatCost(cost)}`}
+    </span>
+  );
+}
+
+// Note editor shown under a message header while pinning it (or editing its pin)
+function BookmarkEditor({
+  bookmark,
+  onSave,
+  onRemove,
+  onCancel
+}: {
+  bookmark?: MessageBookmark;
+  onSave: (note: string) => void;
+  onRemove: () => void;
+  onCancel: () => void;
+}) {
+  const [note, setNote] = useState(bookmark?.note ?? '');
+  return (
+    <div className="w-full min-w-[280px] mb-2 p-2 flex items-center gap-2 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl">
+      <input
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') onSave(note.trim());
+          if (e.key === 'Escape') onCancel();
+        }}
+        autoFocus
+        placeholder="Note (optional)"
+        className="flex-1 min-w-0 px-2 py-1 text-sm bg-white dark:bg-[#333333] border border-[#E5E5E5] dark:border-[#444444] rounded-lg focus:outline-none text-[#1A1A1A] dark:text-white"
+      />
+      <Button size="sm" onClick={() => onSave(note.trim())}>{bookmark ? 'Save' : 'Pin'}</Button>
+      {bookmark && <Button size="sm" variant="ghost" onClick={onRemove}>Unpin</Button>}
+      <Button size="sm" variant="ghost" onClick={onCancel}>Cancel</Button>
+    </div>
+  );
+}
+
+interface MessageItemProps {
+  message: Message;
+  branchIndex?: number;
+  branchCount?: number;
+  isBusy?: boolean; // a response is being generated; branching is disabled
+  onSelectBranch?: (message: Message, offset: -1 | 1) => void;
+  onEditResend?: (message: Message, content: string) => void;
+  onRegenerate?: (message: Message) => void;
+  onCompare?: (message: Message) => void;
+  highlighted?: boolean; // target of a jump from search
+  onJump?: (message: Message) => void; // set on search results: show the message in the full conversation
+  onBookmark?: (message: Message, bookmark: MessageBookmark | null) => void; // null unpins
+  onFeedback?: (message: Message, feedback: MessageFeedback) => void;
+  onQuote?: (message: Message, excerpt?: string) => void; // no excerpt: reply to the whole message
+  onOpenQuote?: (messageId: string) => void;
+  onOpenToolDetails?: (message: Message) => void;
+}
+
+const MessageItem = memo(function MessageItem({ message, branchIndex = 0, branchCount = 1, isBusy, onSelectBranch, onEditResend, onRegenerate, onCompare, highlighted, onJump, onBookmark, onFeedback, onQuote, onOpenQuote, onOpenToolDetails }: MessageItemProps) {
   const isUser = message.role === 'user';
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  const [isEditingBookmark, setIsEditingBookmark] = useState(false);
+  const [feedbackRating, setFeedbackRating] = useState<MessageFeedback['rating'] | null>(null);
+  // Text selected inside the message, with where to show the "Quote" button (relative to the bubble)
+  const [selection, setSelection] = useState<{ text: string; top: number; left: number } | null>(null);
+  const bubbleRef = useRef<HTMLDivElement>(null);
+
+  const captureSelection = () => {
+    const selected = window.getSelection();
+    const text = selected?.toString().trim();
+    const bubble = bubbleRef.current;
+    if (!onQuote || !selected || !text || !bubble || !bubble.contains(selected.anchorNode) || !bubble.contains(selected.focusNode)) {
+      setSelection(null);
+      return;
+    }
+    const range = selected.getRangeAt(0).getBoundingClientRect();
+    const box = bubble.getBoundingClientRect();
+    setSelection({ text, top: range.top - box.top, left: range.left - box.left + range.width / 2 });
+  };
+
+  // Hide the button once the selection is gone
+  useEffect(() => {
+    if (!selection) return;
+    const handleSelectionChange = () => {
+      if (window.getSelection()?.isCollapsed) setSelection(null);
+    };
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
+  }, [selection]);
+
+  const quoteSelection = () => {
+    if (!selection) return;
+    onQuote?.(message, selection.text);
+    window.getSelection()?.removeAllRanges();
+    setSelection(null);
+  };
 
+  const saveBookmark = (bookmark: MessageBookmark | null) => {
+    onBookmark?.(message, bookmark);
+    setIsEditingBookmark(false);
+  };
+
+  const startEditing = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!draft.trim() || !onEditResend) return;
+    setIsEditing(false);
+    onEditResend(message, draft);
+  };
+
+  // No enter animation: the virtualized list remounts messages as they scroll into view
   return (
     <motion.div
-      initial={{ opacity: 0, y: 20, scale: 0.95 }}
+      initial={false}
       animate={{ opacity: 1, y: 0, scale: 1 }}
-      transition={{ duration: 0.3, ease: 'easeOut' }}
-      className={`flex ${isUser ? 'justify-end' : 'justify-start'}`}
+      className={`flex rounded-2xl transition-colors duration-700 ${isUser ? 'justify-end' : 'justify-start'} ${highlighted ? 'bg-amber-100/70 dark:bg-amber-900/20' : ''}`}
     >
       <div className={`max-w-[70%] ${isUser ? 'items-end' : 'items-start'} flex flex-col`}>
         <div className={`flex items-center gap-2 mb-1 ${isUser ? 'justify-end' : 'justify-start'}`}>
           <span className={`text-xs text-[#888888] dark:text-[#999999] ${isUser ? 'text-right' : 'text-left'}`}>
             {isUser ? 'You' : (message.agentId || 'AI')} {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
           </span>
+          {message.usage && <UsageLabel usage={message.usage} />}
+          {message.stopped && <span className="text-xs text-amber-600" title="Generation was stopped">■ Stopped</span>}
+          {message.interrupted && <span className="text-xs text-red-600" title="Connection lost before the response finished">⚠ Interrupted</span>}
+          {branchCount > 1 && onSelectBranch && (
+            <BranchNavigator index={branchIndex} count={branchCount} disabled={isBusy} onSelect={(offset) => onSelectBranch(message, offset)} />
+          )}
+          {isUser && onEditResend && !isEditing && (
+            <button onClick={startEditing} disabled={isBusy} className="p-1 rounded hover:bg-[#E5E5E5] dark:hover:bg-[#444444] text-[#999999] disabled:opacity-40" title="Edit and resend">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+              </svg>
+            </button>
+          )}
+          {onJump && (
+            <button onClick={() => onJump(message)} className="px-1.5 py-0.5 rounded text-xs text-blue-600 dark:text-blue-400 hover:bg-[#E5E5E5] dark:hover:bg-[#444444]" title="Show in conversation">
+              Jump to ↗
+            </button>
+          )}
+          {!isUser && branchCount > 1 && onCompare && (
+            <button onClick={() => onCompare(message)} className="p-1 rounded hover:bg-[#E5E5E5] dark:hover:bg-[#444444] text-[#999999]" title="Compare variants">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+              </svg>
+            </button>
+          )}
+          {!isUser && onRegenerate && (
+            <button onClick={() => onRegenerate(message)} disabled={isBusy} className="p-1 rounded hover:bg-[#E5E5E5] dark:hover:bg-[#444444] text-[#999999] disabled:opacity-40" title="Regenerate response">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+            </button>
+          )}
+          {onQuote && (
+            <button onClick={() => onQuote(message)} className="p-1 rounded hover:bg-[#E5E5E5] dark:hover:bg-[#444444] text-[#999999]" title="Reply to this message">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+              </svg>
+            </button>
+          )}
+          {onBookmark && (
+            <button
+              onClick={() => setIsEditingBookmark(!isEditingBookmark)}
+              className={`p-1 rounded hover:bg-[#E5E5E5] dark:hover:bg-[#444444] ${message.bookmark ? 'text-amber-500' : 'text-[#999999]'}`}
+              title={message.bookmark ? 'Edit pin' : 'Pin message'}
+            >
+              <svg className="w-4 h-4" fill={message.bookmark ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+              </svg>
+            </button>
+          )}
           {!isUser && <CopyButton text={message.content} />}
+          {!isUser && onFeedback && (
+            <FeedbackButtons rating={message.feedback?.rating} onRate={(rating) => setFeedbackRating(feedbackRating === rating ? null : rating)} />
+          )}
         </div>
-        <div className={`px-4 py-3 rounded-2xl ${isUser ? 'bg-[#1A1A1A] dark:bg-white text-white dark:text-[#1A1A1A] rounded-br-md' : 'bg-white dark:bg-[#333333] border border-[#E5E5E5] dark:border-[#444444] rounded-bl-md shadow-sm'}`}>
-          <p className="text-sm whitespace-pre-wrap leading-relaxed">{message.content}</p>
-        </div>
+        {isEditingBookmark ? (
+          <BookmarkEditor
+            bookmark={message.bookmark}
+            onSave={(note) => saveBookmark({ note, pinnedAt: message.bookmark?.pinnedAt ?? new Date().toISOString() })}
+            onRemove={() => saveBookmark(null)}
+            onCancel={() => setIsEditingBookmark(false)}
+          />
+        ) : message.bookmark?.note && (
+          <div className="mb-1 text-xs text-amber-700 dark:text-amber-400" title="Pin note">📌 {message.bookmark.note}</div>
+        )}
+        {!isUser && message.reasoning && <ReasoningBlock reasoning={message.reasoning} />}
+        {isEditing ? (
+          <div className="w-full min-w-[280px] flex flex-col gap-2">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); submitEdit(); }
+                if (e.key === 'Escape') setIsEditing(false);
+              }}
+              autoFocus
+              rows={3}
+              className="w-full px-4 py-3 text-sm bg-white dark:bg-[#333333] border border-[#E5E5E5] dark:border-[#444444] rounded-2xl resize-y focus:outline-none focus:ring-2 focus:ring-[#1A1A1A] dark:focus:ring-white text-[#1A1A1A] dark:text-white"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" size="sm" onClick={() => setIsEditing(false)}>Cancel</Button>
+              <Button size="sm" onClick={submitEdit} disabled={!draft.trim() || isBusy}>Send as new branch</Button>
+            </div>
+          </div>
+        ) : (
+          <div
+            ref={bubbleRef}
+            onMouseUp={captureSelection}
+            className={`relative px-4 py-3 rounded-2xl ${isUser ? 'bg-[#1A1A1A] dark:bg-white text-white dark:text-[#1A1A1A] rounded-br-md' : 'bg-white dark:bg-[#333333] border border-[#E5E5E5] dark:border-[#444444] rounded-bl-md shadow-sm'}`}
+          >
+            {selection && (
+              <button
+                // Keep the selection: a plain click would collapse it before onClick runs
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={quoteSelection}
+                style={{ top: selection.top, left: selection.left }}
+                className="absolute z-10 -translate-x-1/2 -translate-y-full -mt-1 px-2.5 py-1 text-xs font-medium rounded-lg shadow-lg bg-[#1A1A1A] dark:bg-white text-white dark:text-[#1A1A1A] whitespace-nowrap"
+              >
+                ❝ Quote
+              </button>
+            )}
+            {message.quote && (
+              <button
+                onClick={() => onOpenQuote?.(message.quote!.messageId)}
+                disabled={!onOpenQuote}
+                className="block w-full mb-2 pl-3 border-l-2 border-white/40 dark:border-[#1A1A1A]/30 text-left text-xs opacity-80 hover:opacity-100 disabled:cursor-default"
+                title="Show the quoted message"
+              >
+                <span className="font-medium">↩ {message.quote.author}</span>
+                <span className="block line-clamp-3 whitespace-pre-wrap">{message.quote.excerpt}</span>
+              </button>
+            )}
+            {message.attachments && message.attachments.length > 0 && (
+              <div className={`flex flex-wrap gap-2 ${message.content ? 'mb-2' : ''}`}>
+                {message.attachments.map(attachment => <AttachmentChip key={attachment.id} attachment={attachment} />)}
+              </div>
+            )}
+            {isUser ? (
+              message.content && (
+                <p className="text-sm whitespace-pre-wrap leading-relaxed">
+                  {message.mentions?.length
+                    ? splitMentions(message.content, message.mentions).map((part, i) => part.mention
+                      ? <span key={i} className="px-1.5 py-0.5 rounded-md bg-blue-500/80 text-white font-medium" title={`Sent directly to ${part.mention}`}>{part.text}</span>
+                      : part.text)
+                    : message.content}
+                </p>
+              )
+            ) : (
+              <Markdown source={message.content} />
+            )}
+          </div>
+        )}
+        {feedbackRating && onFeedback && (
+          <FeedbackForm
+            key={feedbackRating}
+            rating={feedbackRating}
+            feedback={message.feedback}
+            onSubmit={(feedback) => {
+              onFeedback(message, feedback);
+              setFeedbackRating(null);
+            }}
+            onCancel={() => setFeedbackRating(null)}
+          />
+        )}
+        {!isUser && message.toolSteps && message.toolSteps.length > 0 && (
+          <ToolTimeline steps={message.toolSteps} onOpenDetails={onOpenToolDetails && (() => onOpenToolDetails(message))} />
+        )}
         <AnimatePresence>
           {!isUser && message.toolCalls && message.toolCalls.length > 0 && (
             <motion.div initial={{ opacity: 0, height: 0 }} animate={{ opacity: 1, height: 'auto' }} exit={{ opacity: 0, height: 0 }} className="mt-2 w-full">
@@ -325,29 +1562,165 @@ const MessageItem = memo(function MessageItem({ message }: { message: Message })
   );
 });
 
+// Only the messages in (and near) the viewport are mounted; heights are measured as they render.
+// Kept apart from Chat so scrolling re-renders just the list.
+const VirtualMessageList = memo(function VirtualMessageList({
+  messages,
+  scrollElementRef,
+  jumpTargetId,
+  onJumped,
+  renderMessage
+}: {
+  messages: Message[];
+  scrollElementRef: React.RefObject<HTMLDivElement | null>;
+  jumpTargetId: string | null;
+  onJumped: () => void;
+  renderMessage: (message: Message) => React.ReactNode;
+}) {
+  const virtualizer = useVirtualizer({
+    count: messages.length,
+    getScrollElement: () => scrollElementRef.current,
+    estimateSize: () => 120,
+    overscan: 6,
+    getItemKey: (index) => messages[index].id,
+  });
+
+  // Scroll to a jump target once it is part of the list
+  useEffect(() => {
+    if (!jumpTargetId) return;
+    const index = messages.findIndex(m => m.id === jumpTargetId);
+    if (index < 0) return;
+    virtualizer.scrollToIndex(index, { align: 'center' });
+    onJumped();
+  }, [jumpTargetId, messages, virtualizer, onJumped]);
+
+  return (
+    <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+      {virtualizer.getVirtualItems().map((item) => (
+        <div
+          key={item.key}
+          data-index={item.index}
+          ref={virtualizer.measureElement}
+          className="absolute top-0 left-0 w-full pb-4"
+          style={{ transform: `translateY(${item.start}px)` }}
+        >
+          {renderMessage(messages[item.index])}
+        </div>
+      ))}
+    </div>
+  );
+});
+
 export function Chat() {
-  const { activeSession, addMessageToSession, clearSessionMessages, updateSessionName, multiAgentSettings, setMultiAgentEnabled } = useSession();
-  const [messages, setMessages] = useState<Message[]>(DEFAULT_MESSAGES);
+  const { sessions, activeSession, availableAgents, createSession, switchSession, addMessageToSession, clearSessionMessages, selectMessageBranch, updateMessage, removeMessage, queueMessage, updatePendingMessage, removePendingMessage, sendingMessageIds, isBackendReachable, markBackendUnreachable, checkBackend, updateSessionName, updateSessionAgent, drafts, updateSessionDraft, multiAgentSettings, setMultiAgentEnabled } = useSession();
+  const navigate = useNavigate();
+  const { snippets } = useSnippets();
+  // Router status shown while multi-agent mode is planning; not part of the session until a plan exists
+  const [routingMessage, setRoutingMessage] = useState<Message | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isStreaming, setIsStreaming] = useState(false);
   const [isThinking, setIsThinking] = useState(false);
   const [streamingContent, setStreamingContent] = useState('');
+  const [streamingReasoning, setStreamingReasoning] = useState<ReasoningTrace | null>(null);
   const [progressSteps, setProgressSteps] = useState<ProgressStep[]>([]);
   const [showSummary, setShowSummary] = useState(false);
-  const [isToolPanelOpen, setIsToolPanelOpen] = useState(false);
+  const [toolPanelMessageId, setToolPanelMessageId] = useState<string | null>(null);
+  const [pendingApprovals, setPendingApprovals] = useState<PendingApproval[]>([]);
+  const [comparingMessage, setComparingMessage] = useState<Message | null>(null);
   
   // Multi-agent state
-  const [multiAgentResponses, setMultiAgentResponses] = useState<Record<string, { content: string; status: 'pending' | 'streaming' | 'completed' | 'error' }>>({});
+  const [multiAgentResponses, setMultiAgentResponses] = useState<Record<string, AgentResponse>>({});
   const multiAgentStreamingRef = useRef<Record<string, string>>({});
+
+  // Cancellation of the in-flight generation (and of single agents in multi-agent mode)
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Session of the running stream; Stop cancels its backend run even after switching sessions
+  const streamSessionIdRef = useRef<string | null>(null);
+  const agentAbortRef = useRef<Record<string, AbortController>>({});
+
+  // Streams currently trying to resume after a dropped connection
+  const reconnectingStreamsRef = useRef(new Set<string>());
+  const [isReconnecting, setIsReconnecting] = useState(false);
   
-  const [inputValue, setInputValue] = useState('');
+  // The composer edits the active session's draft, so unsent text and attachments survive
+  // session switches, navigation and reloads
+  const activeSessionId = activeSession?.id;
+  const draft = activeSessionId ? drafts[activeSessionId] : undefined;
+  const inputValue = draft?.text ?? '';
+  // Files behind the draft's attachments, by attachment id (restored from the attachment store after a reload)
+  const [draftFiles, setDraftFiles] = useState<Record<string, File>>({});
+  const pendingAttachments = useMemo<PendingAttachment[]>(
+    () => (draft?.attachments || []).flatMap(attachment => draftFiles[attachment.id] ? [{ attachment, file: draftFiles[attachment.id] }] : []),
+    [draft, draftFiles]
+  );
+  const setInputValue = useCallback((text: string) => {
+    if (activeSessionId) updateSessionDraft(activeSessionId, d => ({ ...d, text }));
+  }, [activeSessionId, updateSessionDraft]);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Composer autocomplete: slash commands, or @agent mentions in multi-agent mode
+  const [caretPosition, setCaretPosition] = useState(0);
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
+  const [suggestionsDismissed, setSuggestionsDismissed] = useState(false);
+  const [commandNotice, setCommandNotice] = useState<string | null>(null);
+  const [isSnippetPickerOpen, setIsSnippetPickerOpen] = useState(false);
+  const [pendingSnippet, setPendingSnippet] = useState<{ snippet: Snippet; variables: string[] } | null>(null);
+  const slashCommands = useSlashCommands();
+  const suggestions = useMemo<(SlashSuggestion | MentionSuggestion)[]>(() => {
+    const commandSuggestions = getSlashSuggestions(inputValue, slashCommands);
+    if (commandSuggestions.length > 0 || !multiAgentSettings.enabled) return commandSuggestions;
+    return getMentionSuggestions(inputValue, caretPosition, availableAgents);
+  }, [inputValue, caretPosition, slashCommands, multiAgentSettings.enabled, availableAgents]);
+  const showSuggestions = !suggestionsDismissed && suggestions.length > 0;
   const [searchQuery, setSearchQuery] = useState('');
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [jumpTargetId, setJumpTargetId] = useState<string | null>(null);
+  const [isGlobalSearchOpen, setIsGlobalSearchOpen] = useState(false);
+  const [isBookmarksOpen, setIsBookmarksOpen] = useState(false);
+  // Set when opening a message switches sessions, so the switch doesn't scroll to the bottom
+  const pendingJumpRef = useRef(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const streamingContentRef = useRef('');
   const userScrolledRef = useRef(false);
 
+  // The selected branch of the session's message tree is what the user sees and what the backend gets as history
+  const tree = activeSession?.tree;
+  const childrenIndex = useMemo(() => tree ? indexChildren(tree) : new Map<string, Message[]>(), [tree]);
+  const thread = useMemo(() => tree ? getThread(tree, childrenIndex) : [], [tree, childrenIndex]);
+  const messages = useMemo(() => {
+    const visible = thread.length > 0 ? thread : DEFAULT_MESSAGES;
+    return routingMessage ? [...visible, routingMessage] : visible;
+  }, [thread, routingMessage]);
+
+  // Every branch of the session counts towards its cost, not only the selected one
+  const prices = usePriceTable();
+  const sessionUsage = useMemo(() => summarizeUsage(tree?.nodes || [], prices), [tree, prices]);
+  const sessionCost = summaryCost(sessionUsage);
+  // Pins from every branch, oldest first
+  const pinnedMessages = useMemo(
+    () => (tree?.nodes || []).filter(m => m.bookmark).sort((a, b) => a.bookmark!.pinnedAt.localeCompare(b.bookmark!.pinnedAt)),
+    [tree]
+  );
+
+  // Tool timelines open in the side panel one answer at a time
+  const toolPanelMessage = useMemo(
+    () => (toolPanelMessageId && tree?.nodes.find(m => m.id === toolPanelMessageId)) || null,
+    [tree, toolPanelMessageId]
+  );
+  const latestToolMessage = useMemo(
+    () => [...thread].reverse().find(m => !!m.toolSteps?.length || !!m.toolCalls?.length),
+    [thread]
+  );
+  const openToolDetails = useCallback((message: Message) => setToolPanelMessageId(message.id), []);
+
+  // Search filters the list; results can jump back to their place in the full conversation
+  const listedMessages = useMemo(() => {
+    const q = searchQuery.toLowerCase();
+    return q ? messages.filter(m => m.content.toLowerCase().includes(q)) : messages;
+  }, [messages, searchQuery]);
+
   const handleScroll = useCallback(() => {
     if (messagesContainerRef.current) {
       const { scrollTop, scrollHeight, clientHeight } = messagesContainerRef.current;
@@ -357,15 +1730,31 @@ export function Chat() {
   }, []);
 
   useEffect(() => {
-    if (activeSession) {
-      const sessionMessages = activeSession.messages.length > 0 ? activeSession.messages : DEFAULT_MESSAGES;
-      setMessages(sessionMessages);
+    if (activeSessionId) {
+      if (pendingJumpRef.current) {
+        pendingJumpRef.current = false;
+        return;
+      }
       userScrolledRef.current = false;
       setTimeout(() => messagesEndRef.current?.scrollIntoView({ behavior: 'auto' }), 0);
-    } else {
-      setMessages(DEFAULT_MESSAGES);
     }
-  }, [activeSession?.id]);
+  }, [activeSessionId]);
+
+  // Load files of draft attachments that aren't in memory; attachments whose file is gone are dropped
+  useEffect(() => {
+    const missing = (draft?.attachments || []).filter(a => !(a.id in draftFiles));
+    if (!activeSessionId || missing.length === 0) return;
+    let cancelled = false;
+    Promise.all(missing.map(a => getAttachmentFile(a.id))).then(files => {
+      if (cancelled) return;
+      const found: Record<string, File> = {};
+      missing.forEach((a, i) => { if (files[i]) found[a.id] = files[i]; });
+      setDraftFiles(prev => ({ ...prev, ...found }));
+      const lost = new Set(missing.filter(a => !found[a.id]).map(a => a.id));
+      if (lost.size > 0) updateSessionDraft(activeSessionId, d => ({ ...d, attachments: d.attachments.filter(a => !lost.has(a.id)) }));
+    });
+    return () => { cancelled = true; };
+  }, [activeSessionId, draft, draftFiles, updateSessionDraft]);
 
   useEffect(() => {
     const handleSessionChange = (event: CustomEvent) => {
@@ -375,11 +1764,12 @@ export function Chat() {
     return () => window.removeEventListener('session-changed', handleSessionChange as EventListener);
   }, []);
 
+  // Stick to the bottom while new content arrives, unless the user scrolled up to read
   useEffect(() => {
     if (!userScrolledRef.current && messagesEndRef.current) {
       messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [messages.length, isStreaming]);
+  }, [messages.length, isStreaming, streamingContent, multiAgentResponses]);
 
   useEffect(() => {
     if (textareaRef.current) {
@@ -388,158 +1778,46 @@ export function Chat() {
     }
   }, [inputValue]);
 
-  const sendMessage = useCallback(async (content: string) => {
-    if (!content.trim() || isLoading || !activeSession) return;
-
-    // 智能多Agent模式：前端驱动编排
-    if (multiAgentSettings.enabled) {
-      await handleSmartChat(content);
-      return;
-    }
-
-    const userMessage: Message = { id: `msg-${Date.now()}`, role: 'user', content: content.trim(), timestamp: new Date() };
-    setMessages(prev => [...prev, userMessage]);
-    addMessageToSession(activeSession.id, userMessage);
+  const trackConnection = useCallback((streamKey: string) => (status: ConnectionStatus) => {
+    if (status === 'reconnecting') reconnectingStreamsRef.current.add(streamKey);
+    else reconnectingStreamsRef.current.delete(streamKey);
+    setIsReconnecting(reconnectingStreamsRef.current.size > 0);
+  }, []);
 
-    setStreamingContent('');
-    setIsStreaming(false);
-    setIsThinking(false);
-    streamingContentRef.current = '';
-    setIsLoading(true);
+  const resetConnectionState = useCallback(() => {
+    reconnectingStreamsRef.current.clear();
+    setIsReconnecting(false);
+  }, []);
 
-    try {
-      // Build request body
-      const requestBody: Record<string, unknown> = {
-        message: content.trim(),
-        sessionId: activeSession.id,
-        agentId: activeSession.agentId,
-      };
+  // The Settings policy for the tool answers right away; 'ask' shows a card and the run waits for the user
+  const handleApprovalRequest = useCallback((sessionId: string, request: ApprovalRequest, agentId?: string) => {
+    const policy = policyFor(getApprovalPolicies(), request.tool);
+    if (policy === 'ask') setPendingApprovals(prev => [...prev, { request, sessionId, agentId }]);
+    else sendApprovalDecision(sessionId, request, { approved: policy === 'auto' }, agentId);
+  }, []);
 
-      const res = await fetch('/api/chat/stream', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(requestBody)
-      });
+  const decideApproval = useCallback(async (approval: PendingApproval, decision: ApprovalDecision) => {
+    const accepted = await sendApprovalDecision(approval.sessionId, approval.request, decision, approval.agentId);
+    if (accepted) setPendingApprovals(prev => prev.filter(a => a.request.id !== approval.request.id));
+    return accepted;
+  }, []);
 
-      if (!res.ok) throw new Error(`API error: ${res.status}`);
-
-      if (res.body) {
-        setIsStreaming(true);
-        const reader = res.body.getReader();
-        const decoder = new TextDecoder();
-        let buffer = '';
-        let currentEventType = 'message';
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-
-          for (const line of lines) {
-            if (!line.trim() || line.startsWith(':')) continue;
-            if (line.startsWith('event:')) { currentEventType = line.slice(6).trim(); continue; }
-            if (line.startsWith('data:')) {
-              const dataContent = line.slice(5).trim();
-              try {
-                const data = JSON.parse(dataContent);
-                switch (currentEventType) {
-                  case 'thinking':
-                    setIsThinking(data.status === 'starting' || data.status === 'queued');
-                    break;
-                  case 'progress':
-                    if (data.tool || data.file || data.action) {
-                      setProgressSteps(prev => {
-                        const newStep: ProgressStep = { tool: data.tool, file: data.file, action: data.action, status: data.status || 'running', content: data.content };
-                        const existingIndex = prev.findIndex(s => s.tool === data.tool && s.file === data.file);
-                        if (existingIndex >= 0) { const updated = [...prev]; updated[existingIndex] = newStep; return updated; }
-                        return [...prev, newStep];
-                      });
-                    }
-                    streamingContentRef.current += data.content;
-                    setStreamingContent(streamingContentRef.current);
-                    break;
-                  // Multi-agent events
-                  case 'agent_start':
-                    if (data.agentId) {
-                      setMultiAgentResponses(prev => ({
-                        ...prev,
-                        [data.agentId]: { content: '', status: 'streaming' }
-                      }));
-                      multiAgentStreamingRef.current[data.agentId] = '';
-                    }
-                    break;
-                  case 'agent_progress':
-                    if (data.agentId && data.content) {
-                      multiAgentStreamingRef.current[data.agentId] = (multiAgentStreamingRef.current[data.agentId] || '') + data.content;
-                      setMultiAgentResponses(prev => ({
-                        ...prev,
-                        [data.agentId]: { 
-                          content: multiAgentStreamingRef.current[data.agentId], 
-                          status: 'streaming' 
-                        }
-                      }));
-                    }
-                    break;
-                  case 'agent_done':
-                    if (data.agentId) {
-                      multiAgentStreamingRef.current[data.agentId] = data.content || multiAgentStreamingRef.current[data.agentId] || '';
-                      setMultiAgentResponses(prev => ({
-                        ...prev,
-                        [data.agentId]: { 
-                          content: multiAgentStreamingRef.current[data.agentId], 
-                          status: data.error ? 'error' : 'completed' 
-                        }
-                      }));
-                    }
-                    break;
-                  case 'all_done':
-                    setIsStreaming(false);
-                    setIsThinking(false);
-                    const allIds = Object.keys(multiAgentStreamingRef.current);
-                    const combined = allIds.map(id => `## ${id}\n\n${multiAgentStreamingRef.current[id] || ''}`).join('\n\n---\n\n');
-                    const assistantMessage: Message = { id: `msg-${Date.now()}`, role: 'assistant', content: combined || 'No response', timestamp: new Date() };
-                    setMessages(prev => [...prev, assistantMessage]);
-                    addMessageToSession(activeSession.id, assistantMessage);
-                    if (activeSession.messages.length === 0) updateSessionName(activeSession.id, content.slice(0, 30) + (content.length > 30 ? '...' : ''));
-                    setMultiAgentResponses({});
-                    multiAgentStreamingRef.current = {};
-                    setShowSummary(true);
-                    setTimeout(() => setShowSummary(false), 3000);
-                    return;
-                  case 'error': console.error('Stream error:', data.content); break;
-                }
-              } catch { streamingContentRef.current += dataContent; setStreamingContent(streamingContentRef.current); }
-              currentEventType = 'message';
-            }
-          }
-        }
-      }
+  interface GenerateOptions {
+    history: Message[];
+    parentId?: string;
+    agentId?: string;
+    files?: File[];
+    quote?: MessageQuote;
+    onUnreachable?: () => void; // the request never reached the backend; no error answer is added
+  }
 
-      setIsStreaming(false);
-      setIsThinking(false);
-      const assistantMessage: Message = { id: `msg-${Date.now()}`, role: 'assistant', content: streamingContentRef.current || 'No response', timestamp: new Date() };
-      setMessages(prev => [...prev, assistantMessage]);
-      addMessageToSession(activeSession.id, assistantMessage);
-      if (activeSession.messages.length === 0) updateSessionName(activeSession.id, content.slice(0, 30) + (content.length > 30 ? '...' : ''));
-      setStreamingContent('');
-      setShowSummary(true);
-      setTimeout(() => setShowSummary(false), 3000);
-    } catch (error) {
-      console.error('Chat error:', error);
-      const errorMsg: Message = { id: `msg-${Date.now()}`, role: 'assistant', content: 'Sorry, I encountered an error.', timestamp: new Date() };
-      setMessages(prev => [...prev, errorMsg]);
-      addMessageToSession(activeSession.id, errorMsg);
-    } finally {
-      setIsLoading(false);
-      setIsStreaming(false);
-      setIsThinking(false);
-      setProgressSteps([]);
-      setStreamingContent('');
-    }
-  }, [isLoading, activeSession, addMessageToSession, updateSessionName]);
+  // A prompt that never reached the backend leaves the conversation and waits in the outbox,
+  // where its attachment files (stored by sendMessage) are picked up again
+  const moveToOutbox = useCallback((sessionId: string, message: Message) => {
+    removeMessage(sessionId, message.id);
+    queueMessage(sessionId, toPendingMessage(message));
+    markBackendUnreachable();
+  }, [removeMessage, queueMessage, markBackendUnreachable]);
 
   // 路由计划类型
   interface RoutePlan {
@@ -550,17 +1828,29 @@ export function Chat() {
   }
 
   // 前端驱动智能聊天 - 路由 + 并行执行
-  const handleSmartChat = useCallback(async (content: string) => {
-    if (!content.trim() || isLoading || !activeSession) return;
-
-    const userMessage: Message = { id: `msg-${Date.now()}`, role: 'user', content: content.trim(), timestamp: new Date() };
-    setMessages(prev => [...prev, userMessage]);
+  const handleSmartChat = useCallback(async (content: string, parentId?: string | null, attachments: PendingAttachment[] = [], quote?: MessageQuote) => {
+    if ((!content.trim() && attachments.length === 0) || isLoading || !activeSession) return;
+
+    const history = toChatHistory(parentId === undefined ? thread : getPathTo(activeSession.tree, parentId));
+    const files = attachments.map(a => a.file);
+    // @mentioned agents get the task directly, without asking the router
+    const mentions = parseMentions(content, availableAgents.map(a => a.id));
+    const task = stripMentions(content, mentions);
+    const userMessage: Message = {
+      id: `msg-${Date.now()}`, role: 'user', content: content.trim(), timestamp: new Date(), parentId,
+      ...(attachments.length > 0 && { attachments: attachments.map(a => a.attachment) }),
+      ...(mentions.length > 0 && { mentions }),
+      ...(quote && { quote }),
+    };
     addMessageToSession(activeSession.id, userMessage);
 
     setIsLoading(true);
     setIsStreaming(true);
     setMultiAgentResponses({});
     multiAgentStreamingRef.current = {};
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    streamSessionIdRef.current = activeSession.id;
 
     // 显示 Router 正在分析任务
     const routingMessage: Message = { 
@@ -570,18 +1860,19 @@ export function Chat() {
       timestamp: new Date(),
       agentId: 'router'
     };
-    setMessages(prev => [...prev, routingMessage]);
 
-    try {
-      // 第一步：获取路由计划
-      const routeRes = await fetch('/api/chat/route', {
+    const fetchRoutePlan = async (): Promise<RoutePlan> => {
+      const routeRes = await fetchBackend('/api/chat/route', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           message: content.trim(),
           sessionId: activeSession.id,
           agentId: activeSession.agentId,
-        })
+          history,
+          ...toQuoteFields(quote),
+        }),
+        signal: controller.signal,
       });
 
       if (!routeRes.ok) throw new Error(`Route API error: ${routeRes.status}`);
@@ -591,8 +1882,16 @@ export function Chat() {
       if (!routeData.success || !routeData.plan) {
         throw new Error(routeData.error || 'Routing failed');
       }
+      return routeData.plan;
+    };
 
-      const plan: RoutePlan = routeData.plan;
+    if (mentions.length === 0) setRoutingMessage(routingMessage);
+
+    try {
+      // 第一步：获取路由计划（@提及时直接使用提及的 agent）
+      const plan: RoutePlan = mentions.length > 0
+        ? { agents: mentions, task_for_each: {} }
+        : await fetchRoutePlan();
       const agents = plan.agents || [];
       const taskMap = plan.task_for_each || {};
       const reasoning = plan.reasoning || '';
@@ -601,16 +1900,15 @@ export function Chat() {
         throw new Error('No agents returned from router');
       }
 
-      // 更新 routingMessage 显示调度结果
-      const routingSummary = `✅ 已调度 ${agents.length} 个 Agent:\n${agents.map(a => `• ${a}`).join('\n')}\n\n${reasoning ? `分析: ${reasoning}` : ''}`;
-      setMessages(prev => prev.map(m => 
-        m.id.startsWith('msg-routing-') 
-          ? { ...m, content: routingSummary } 
-          : m
-      ));
+      // 调度结果写入会话，作为本轮回复的第一条
+      if (mentions.length === 0) {
+        const routingSummary = `✅ 已调度 ${agents.length} 个 Agent:\n${agents.map(a => `• ${a}`).join('\n')}\n\n${reasoning ? `分析: ${reasoning}` : ''}`;
+        addMessageToSession(activeSession.id, { ...routingMessage, content: routingSummary, timestamp: new Date() });
+        setRoutingMessage(null);
+      }
 
       // 初始化所有 agent 状态
-      const initialResponses: Record<string, { content: string; status: 'pending' | 'streaming' | 'completed' | 'error' }> = {};
+      const initialResponses: Record<string, AgentResponse> = {};
       agents.forEach(agentId => {
         initialResponses[agentId] = { content: '', status: 'pending' };
         multiAgentStreamingRef.current[agentId] = '';
@@ -618,8 +1916,14 @@ export function Chat() {
       setMultiAgentResponses(initialResponses);
 
       // 第二步：并行执行所有任务
+      const stoppedAgents = new Set<string>();
+      const interruptedAgents = new Set<string>();
+      const unreachableAgents = new Set<string>(); // failed to reach the backend before answering anything
+      const agentUsage: Record<string, TokenUsage> = {};
+      const agentToolSteps: Record<string, ToolStep[]> = {};
+      const agentReasoning: Record<string, ReasoningTrace> = {};
       const taskPromises = agents.map(async (agentId) => {
-        const taskMessage = taskMap[agentId] || content.trim();
+        const taskMessage = taskMap[agentId] || task;
 
         // 更新状态为 streaming
         setMultiAgentResponses(prev => ({
@@ -627,123 +1931,105 @@ export function Chat() {
           [agentId]: { content: '', status: 'streaming' }
         }));
 
-        const taskRes = await fetch('/api/chat/stream', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            message: taskMessage,
-            sessionId: activeSession.id,
-            agentId: activeSession.agentId,
-            agentIds: [agentId], // 只指定一个 agent
-          })
+        const appendAgentContent = (text: string) => {
+          if (!text) return;
+          if (agentReasoning[agentId]) agentReasoning[agentId] = endReasoning(agentReasoning[agentId]);
+          multiAgentStreamingRef.current[agentId] += text;
+          setMultiAgentResponses(prev => ({
+            ...prev,
+            [agentId]: {
+              content: multiAgentStreamingRef.current[agentId],
+              status: 'streaming'
+            }
+          }));
+        };
+
+        // 每个 agent 可单独取消，Stop 按钮则取消全部
+        const agentController = new AbortController();
+        agentAbortRef.current[agentId] = agentController;
+        const stream = chatStream({
+          message: taskMessage,
+          sessionId: activeSession.id,
+          agentId: activeSession.agentId,
+          agentIds: [agentId], // 只指定一个 agent
+          history,
+          ...toQuoteFields(quote),
+          files,
+        }, {
+          signal: AbortSignal.any([controller.signal, agentController.signal]),
+          onConnectionChange: trackConnection(agentId),
         });
 
-        if (!taskRes.ok) throw new Error(`Task API error: ${taskRes.status}`);
-
-        // 读取流式响应
-        if (taskRes.body) {
-          const reader = taskRes.body.getReader();
-          const decoder = new TextDecoder();
-          let buffer = '';
-          let currentEventType = 'message';
-
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-
-            buffer += decoder.decode(value, { stream: true });
-            const lines = buffer.split('\n');
-            buffer = lines.pop() || '';
-
-            for (const line of lines) {
-              if (!line.trim() || line.startsWith(':')) continue;
-              if (line.startsWith('event:')) {
-                currentEventType = line.slice(6).trim();
-                continue;
+        try {
+          // 根据事件类型处理
+          for await (const event of stream) {
+            switch (event.type) {
+              case 'thinking':
+                setIsThinking(event.status === 'starting' || event.status === 'queued');
+                break;
+              case 'reasoning':
+                agentReasoning[agentId] = appendReasoning(agentReasoning[agentId] || null, event.content);
+                break;
+              case 'progress': {
+                const { step } = event;
+                if (step) {
+                  setProgressSteps(prev => upsertProgressStep(prev, step));
+                  agentToolSteps[agentId] = recordToolStep(agentToolSteps[agentId] || [], step);
+                }
+                // 累加到当前 agent 的内容
+                appendAgentContent(event.content);
+                break;
               }
-              if (line.startsWith('data:')) {
-                const dataContent = line.slice(5).trim();
-                try {
-                  const data = JSON.parse(dataContent);
-
-                  // 根据事件类型处理
-                  switch (currentEventType) {
-                    case 'thinking':
-                      setIsThinking(data.status === 'starting' || data.status === 'queued');
-                      break;
-                    case 'progress':
-                      if (data.tool || data.file || data.action) {
-                        setProgressSteps(prev => {
-                          const newStep: ProgressStep = { tool: data.tool, file: data.file, action: data.action, status: data.status || 'running', content: data.content };
-                          const existingIndex = prev.findIndex(s => s.tool === data.tool && s.file === data.file);
-                          if (existingIndex >= 0) { const updated = [...prev]; updated[existingIndex] = newStep; return updated; }
-                          return [...prev, newStep];
-                        });
-                      }
-                      // 累加到当前 agent 的内容
-                      const progressContent = data.content || '';
-                      if (progressContent) {
-                        multiAgentStreamingRef.current[agentId] += progressContent;
-                        setMultiAgentResponses(prev => ({
-                          ...prev,
-                          [agentId]: {
-                            content: multiAgentStreamingRef.current[agentId],
-                            status: 'streaming'
-                          }
-                        }));
-                      }
-                      break;
-                    case 'message':
-                    case 'content':
-                      const msgContent = data.content || data.delta || '';
-                      if (msgContent) {
-                        multiAgentStreamingRef.current[agentId] += msgContent;
-                        setMultiAgentResponses(prev => ({
-                          ...prev,
-                          [agentId]: {
-                            content: multiAgentStreamingRef.current[agentId],
-                            status: 'streaming'
-                          }
-                        }));
-                      }
-                      break;
-                    case 'done':
-                    case 'agent_done':
-                      setMultiAgentResponses(prev => ({
-                        ...prev,
-                        [agentId]: {
-                          content: multiAgentStreamingRef.current[agentId] || '',
-                          status: 'completed'
-                        }
-                      }));
-                      break;
-                    case 'error':
-                      setMultiAgentResponses(prev => ({
-                        ...prev,
-                        [agentId]: {
-                          content: multiAgentStreamingRef.current[agentId] || `Error: ${data.content || 'Unknown error'}`,
-                          status: 'error'
-                        }
-                      }));
-                      break;
+              case 'message':
+              case 'content':
+              case 'text': // 非 JSON 格式的直接内容
+                appendAgentContent(event.content);
+                break;
+              case 'usage':
+                agentUsage[agentId] = addUsage(agentUsage[agentId] || EMPTY_USAGE, event.usage);
+                break;
+              case 'approval_request':
+                handleApprovalRequest(activeSession.id, event.request, agentId);
+                break;
+              case 'done':
+              case 'agent_done':
+                setMultiAgentResponses(prev => ({
+                  ...prev,
+                  [agentId]: {
+                    content: multiAgentStreamingRef.current[agentId] || '',
+                    status: 'completed'
                   }
-                } catch {
-                  // 非 JSON 格式的直接内容
-                  if (dataContent) {
-                    multiAgentStreamingRef.current[agentId] += dataContent;
-                    setMultiAgentResponses(prev => ({
-                      ...prev,
-                      [agentId]: {
-                        content: multiAgentStreamingRef.current[agentId],
-                        status: 'streaming'
-                      }
-                    }));
+                }));
+                break;
+              case 'error':
+                setMultiAgentResponses(prev => ({
+                  ...prev,
+                  [agentId]: {
+                    content: multiAgentStreamingRef.current[agentId] || `Error: ${event.content}`,
+                    status: 'error'
                   }
-                }
-                currentEventType = 'message';
-              }
+                }));
+                break;
             }
           }
+        } catch (error) {
+          // Lost the backend after the routing step: this agent's answer is cut short, the others carry on
+          const interrupted = error instanceof StreamInterruptedError || error instanceof BackendUnreachableError;
+          if (!isAbortError(error) && !interrupted) throw error;
+          if (error instanceof BackendUnreachableError) {
+            markBackendUnreachable();
+            if (!multiAgentStreamingRef.current[agentId]) unreachableAgents.add(agentId);
+          }
+          (interrupted ? interruptedAgents : stoppedAgents).add(agentId);
+          setMultiAgentResponses(prev => ({
+            ...prev,
+            [agentId]: {
+              content: multiAgentStreamingRef.current[agentId] || '',
+              status: interrupted ? 'error' : 'stopped'
+            }
+          }));
+        } finally {
+          delete agentAbortRef.current[agentId];
         }
 
         return agentId;
@@ -752,6 +2038,15 @@ export function Chat() {
       // 等待所有任务完成
       await Promise.all(taskPromises);
 
+      // No agent got through: the prompt (and the router summary under it) leaves the conversation for the outbox
+      if (unreachableAgents.size === agents.length) {
+        if (mentions.length === 0) removeMessage(activeSession.id, routingMessage.id);
+        setMultiAgentResponses({});
+        multiAgentStreamingRef.current = {};
+        moveToOutbox(activeSession.id, userMessage);
+        return;
+      }
+
       // 第三步：汇总结果 - 添加多条独立消息
       setIsStreaming(false);
       setIsThinking(false);
@@ -764,12 +2059,16 @@ export function Chat() {
         content: multiAgentStreamingRef.current[agentId] || '',
         timestamp: new Date(),
         agentId: agentId, // 标记这是哪个 agent 的输出
+        ...(stoppedAgents.has(agentId) && { stopped: true }),
+        ...(interruptedAgents.has(agentId) && { interrupted: true }),
+        ...(agentUsage[agentId] && { usage: agentUsage[agentId] }),
+        ...(agentToolSteps[agentId] && { toolSteps: finishToolSteps(agentToolSteps[agentId]) }),
+        ...toMessageReasoning(agentReasoning[agentId] || null),
       }));
 
-      setMessages(prev => [...prev, ...newMessages]);
       newMessages.forEach(msg => addMessageToSession(activeSession.id, msg));
       
-      if (activeSession.messages.length === 0) updateSessionName(activeSession.id, content.slice(0, 30) + (content.length > 30 ? '...' : ''));
+      if (activeSession.tree.nodes.length === 0 && content) updateSessionName(activeSession.id, content.slice(0, 30) + (content.length > 30 ? '...' : ''));
 
       setMultiAgentResponses({});
       multiAgentStreamingRef.current = {};
@@ -777,30 +2076,515 @@ export function Chat() {
       setTimeout(() => setShowSummary(false), 3000);
 
     } catch (error) {
+      // 路由阶段被取消：不算错误
+      if (isAbortError(error)) return;
+      // Only the routing request gets here unreachable; agent streams are handled above
+      if (error instanceof BackendUnreachableError) {
+        moveToOutbox(activeSession.id, userMessage);
+        return;
+      }
       console.error('Smart chat error:', error);
       const errorMsg: Message = { id: `msg-${Date.now()}`, role: 'assistant', content: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`, timestamp: new Date() };
-      setMessages(prev => [...prev, errorMsg]);
+      addMessageToSession(activeSession.id, errorMsg);
+    } finally {
+      setRoutingMessage(null);
+      setIsLoading(false);
+      setIsStreaming(false);
+      setIsThinking(false);
+      setProgressSteps([]);
+      setPendingApprovals([]);
+      abortControllerRef.current = null;
+      streamSessionIdRef.current = null;
+      resetConnectionState();
+    }
+  }, [isLoading, activeSession, thread, availableAgents, addMessageToSession, updateSessionName, trackConnection, resetConnectionState, handleApprovalRequest, removeMessage, moveToOutbox, markBackendUnreachable]);
+
+  // Stream one assistant answer to `prompt`. `parentId` attaches it somewhere other than the tip
+  // of the selected branch (regenerate); `agentId` asks a single multi-agent agent to answer.
+  const generateResponse = useCallback(async (prompt: string, { history, parentId, agentId, files, quote, onUnreachable }: GenerateOptions) => {
+    if (!activeSession) return;
+
+    setStreamingContent('');
+    setStreamingReasoning(null);
+    setIsStreaming(false);
+    setIsThinking(false);
+    streamingContentRef.current = '';
+    setIsLoading(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    streamSessionIdRef.current = activeSession.id;
+    // Summed over the backend's model calls; when one agent was asked, only that agent's
+    let usage: TokenUsage | undefined;
+    // The answer's tool timeline, kept on the message once it ends
+    let toolSteps: ToolStep[] = [];
+    const timeline = () => (toolSteps.length > 0 ? { toolSteps: finishToolSteps(toolSteps) } : {});
+    // Reasoning streamed before the answer; its clock stops at the first answer text
+    let reasoning: ReasoningTrace | null = null;
+    const answerStarted = (text: string) => {
+      if (!text || !reasoning || reasoning.endedAt !== undefined) return;
+      reasoning = endReasoning(reasoning);
+      setStreamingReasoning(reasoning);
+    };
+
+    try {
+      const stream = chatStream({
+        message: prompt,
+        sessionId: activeSession.id,
+        agentId: activeSession.agentId,
+        ...(agentId && { agentIds: [agentId] }),
+        history: toChatHistory(history),
+        ...toQuoteFields(quote),
+        files,
+      }, { signal: controller.signal, onConnectionChange: trackConnection('main') });
+
+      setIsStreaming(true);
+      for await (const event of stream) {
+        switch (event.type) {
+          case 'thinking':
+            setIsThinking(event.status === 'starting' || event.status === 'queued');
+            break;
+          case 'reasoning':
+            if (!agentId || !event.agentId || event.agentId === agentId) {
+              reasoning = appendReasoning(reasoning, event.content);
+              setStreamingReasoning(reasoning);
+            }
+            break;
+          case 'progress': {
+            const { step } = event;
+            if (step) {
+              setProgressSteps(prev => upsertProgressStep(prev, step));
+              toolSteps = recordToolStep(toolSteps, step);
+            }
+            answerStarted(event.content);
+            streamingContentRef.current += event.content;
+            setStreamingContent(streamingContentRef.current);
+            break;
+          }
+          case 'text':
+            answerStarted(event.content);
+            streamingContentRef.current += event.content;
+            setStreamingContent(streamingContentRef.current);
+            break;
+          case 'message':
+            // Final message - content already accumulated from progress events
+            break;
+          case 'usage':
+            if (!agentId || !event.agentId || event.agentId === agentId) usage = addUsage(usage || EMPTY_USAGE, event.usage);
+            break;
+          case 'approval_request':
+            handleApprovalRequest(activeSession.id, event.request, event.agentId ?? agentId);
+            break;
+          // Multi-agent events
+          case 'agent_start':
+            setMultiAgentResponses(prev => ({
+              ...prev,
+              [event.agentId]: { content: '', status: 'streaming' }
+            }));
+            multiAgentStreamingRef.current[event.agentId] = '';
+            break;
+          case 'agent_progress':
+            answerStarted(event.content);
+            if (event.content) {
+              multiAgentStreamingRef.current[event.agentId] = (multiAgentStreamingRef.current[event.agentId] || '') + event.content;
+              setMultiAgentResponses(prev => ({
+                ...prev,
+                [event.agentId]: { 
+                  content: multiAgentStreamingRef.current[event.agentId], 
+                  status: 'streaming' 
+                }
+              }));
+            }
+            break;
+          case 'agent_done':
+            multiAgentStreamingRef.current[event.agentId] = event.content || multiAgentStreamingRef.current[event.agentId] || '';
+            setMultiAgentResponses(prev => ({
+              ...prev,
+              [event.agentId]: { 
+                content: multiAgentStreamingRef.current[event.agentId], 
+                status: event.error ? 'error' : 'completed' 
+              }
+            }));
+            break;
+          case 'all_done': {
+            setIsStreaming(false);
+            setIsThinking(false);
+            const allIds = Object.keys(multiAgentStreamingRef.current);
+            // A regenerated single-agent answer stays that agent's message; otherwise combine them
+            const combined = agentId
+              ? multiAgentStreamingRef.current[agentId]
+              : allIds.map(id => `## ${id}\n\n${multiAgentStreamingRef.current[id] || ''}`).join('\n\n---\n\n');
+            const assistantMessage: Message = { id: `msg-${Date.now()}`, role: 'assistant', content: combined || 'No response', timestamp: new Date(), parentId, agentId, usage, ...timeline(), ...toMessageReasoning(reasoning) };
+            addMessageToSession(activeSession.id, assistantMessage);
+            if (activeSession.tree.nodes.length === 0 && prompt) updateSessionName(activeSession.id, prompt.slice(0, 30) + (prompt.length > 30 ? '...' : ''));
+            setMultiAgentResponses({});
+            multiAgentStreamingRef.current = {};
+            setShowSummary(true);
+            setTimeout(() => setShowSummary(false), 3000);
+            return;
+          }
+          case 'error': console.error('Stream error:', event.content); break;
+        }
+      }
+
+      setIsStreaming(false);
+      setIsThinking(false);
+      const assistantMessage: Message = { id: `msg-${Date.now()}`, role: 'assistant', content: streamingContentRef.current || 'No response', timestamp: new Date(), parentId, agentId, usage, ...timeline(), ...toMessageReasoning(reasoning) };
+      addMessageToSession(activeSession.id, assistantMessage);
+      if (activeSession.tree.nodes.length === 0 && prompt) updateSessionName(activeSession.id, prompt.slice(0, 30) + (prompt.length > 30 ? '...' : ''));
+      setStreamingContent('');
+      setShowSummary(true);
+      setTimeout(() => setShowSummary(false), 3000);
+    } catch (error) {
+      if (isAbortError(error)) {
+        // Keep whatever was generated before the user pressed Stop
+        const stoppedMessage: Message = { id: `msg-${Date.now()}`, role: 'assistant', content: streamingContentRef.current, timestamp: new Date(), parentId, agentId, usage, ...timeline(), ...toMessageReasoning(reasoning), stopped: true };
+        addMessageToSession(activeSession.id, stoppedMessage);
+        return;
+      }
+      if (error instanceof BackendUnreachableError && onUnreachable) {
+        onUnreachable();
+        return;
+      }
+      if (error instanceof StreamInterruptedError && streamingContentRef.current) {
+        const partialMessage: Message = { id: `msg-${Date.now()}`, role: 'assistant', content: streamingContentRef.current, timestamp: new Date(), parentId, agentId, usage, ...timeline(), ...toMessageReasoning(reasoning), interrupted: true };
+        addMessageToSession(activeSession.id, partialMessage);
+        return;
+      }
+      console.error('Chat error:', error);
+      const errorMsg: Message = { id: `msg-${Date.now()}`, role: 'assistant', content: 'Sorry, I encountered an error.', timestamp: new Date(), parentId, agentId };
       addMessageToSession(activeSession.id, errorMsg);
     } finally {
       setIsLoading(false);
       setIsStreaming(false);
       setIsThinking(false);
       setProgressSteps([]);
+      setPendingApprovals([]);
+      setStreamingContent('');
+      setStreamingReasoning(null);
+      abortControllerRef.current = null;
+      streamSessionIdRef.current = null;
+      resetConnectionState();
+    }
+  }, [activeSession, addMessageToSession, updateSessionName, trackConnection, resetConnectionState, handleApprovalRequest]);
+
+  // `parentId` set: branch off that message (edit and resend) instead of continuing the selected branch
+  const sendMessage = useCallback(async (content: string, parentId?: string | null, attachments: PendingAttachment[] = [], quote?: MessageQuote) => {
+    if ((!content.trim() && attachments.length === 0) || isLoading || !activeSession) return;
+    // Files stay stored with the message, for the outbox and for editing it later
+    attachments.forEach(({ attachment, file }) => putAttachmentFile(attachment.id, file));
+
+    // Offline, or earlier messages still waiting: queue behind them instead of trying
+    if (!isBackendReachable || activeSession.outbox?.length) {
+      queueMessage(activeSession.id, {
+        id: `msg-${Date.now()}`, content: content.trim(), queuedAt: new Date().toISOString(),
+        ...(attachments.length > 0 && { attachments: attachments.map(a => a.attachment) }),
+        ...(quote && { quote }),
+        ...(parentId !== undefined && { parentId }),
+      });
+      return;
+    }
+
+    // 智能多Agent模式：前端驱动编排
+    if (multiAgentSettings.enabled) {
+      await handleSmartChat(content, parentId, attachments, quote);
+      return;
+    }
+
+    const history = parentId === undefined ? thread : getPathTo(activeSession.tree, parentId);
+    const userMessage: Message = {
+      id: `msg-${Date.now()}`, role: 'user', content: content.trim(), timestamp: new Date(), parentId,
+      ...(attachments.length > 0 && { attachments: attachments.map(a => a.attachment) }),
+      ...(quote && { quote }),
+    };
+    addMessageToSession(activeSession.id, userMessage);
+
+    await generateResponse(content.trim(), {
+      history,
+      files: attachments.map(a => a.file),
+      quote,
+      onUnreachable: () => moveToOutbox(activeSession.id, userMessage),
+    });
+  }, [isLoading, activeSession, thread, isBackendReachable, multiAgentSettings.enabled, handleSmartChat, addMessageToSession, queueMessage, generateResponse, moveToOutbox]);
+
+  const cancelPending = useCallback((message: PendingMessage) => {
+    if (!activeSessionId) return;
+    removePendingMessage(activeSessionId, message.id);
+    deleteAttachmentFiles((message.attachments || []).map(a => a.id));
+  }, [activeSessionId, removePendingMessage]);
+
+  const editPending = useCallback((message: PendingMessage, content: string) => {
+    if (activeSessionId) updatePendingMessage(activeSessionId, message.id, { content });
+  }, [activeSessionId, updatePendingMessage]);
+
+  // Clearing the error puts the message back in line for delivery
+  const retryPending = useCallback((message: PendingMessage) => {
+    if (activeSessionId) updatePendingMessage(activeSessionId, message.id, { error: undefined });
+  }, [activeSessionId, updatePendingMessage]);
+
+  // Re-run the user prompt that led to an assistant message; the new answer becomes its sibling
+  const handleRegenerate = useCallback(async (message: Message) => {
+    if (isLoading || !activeSession) return;
+    const path = getPathTo(activeSession.tree, message.id);
+    let promptIndex = path.length - 1;
+    while (promptIndex >= 0 && path[promptIndex].role !== 'user') promptIndex--;
+    if (promptIndex < 0) return;
+    await generateResponse(path[promptIndex].content, {
+      history: path.slice(0, promptIndex),
+      parentId: message.parentId ?? undefined,
+      agentId: multiAgentSettings.enabled || message.agentId ? message.agentId : undefined,
+      quote: path[promptIndex].quote,
+    });
+  }, [isLoading, activeSession, multiAgentSettings.enabled, generateResponse]);
+
+  const handleStop = useCallback(() => {
+    const sessionId = streamSessionIdRef.current;
+    if (!sessionId || !abortControllerRef.current) return;
+    abortControllerRef.current.abort();
+    cancelChat(sessionId);
+  }, []);
+
+  const handleCancelAgent = useCallback((agentId: string) => {
+    const sessionId = streamSessionIdRef.current;
+    if (!sessionId) return;
+    agentAbortRef.current[agentId]?.abort();
+    cancelChat(sessionId, agentId);
+  }, []);
+
+  const handleSelectBranch = useCallback((message: Message, offset: -1 | 1) => {
+    if (!activeSession) return;
+    const siblings = getSiblings(activeSession.tree, message, childrenIndex);
+    const target = siblings[siblings.findIndex(m => m.id === message.id) + offset];
+    if (target) selectMessageBranch(activeSession.id, target.id);
+  }, [activeSession, childrenIndex, selectMessageBranch]);
+
+  // Leave search and scroll to the message in the full conversation, flashing it briefly
+  const jumpToMessage = useCallback((message: Message) => {
+    userScrolledRef.current = true;
+    setSearchQuery('');
+    setHighlightedMessageId(message.id);
+    setJumpTargetId(message.id);
+    setTimeout(() => setHighlightedMessageId(current => (current === message.id ? null : current)), 2000);
+  }, []);
+
+  const handleJumped = useCallback(() => setJumpTargetId(null), []);
+
+  // Search result or bookmark: open its session on the branch containing the message, then jump there
+  const openMessage = useCallback((sessionId: string, messageId: string) => {
+    const target = sessions.find(s => s.id === sessionId)?.tree.nodes.find(m => m.id === messageId);
+    if (!target) return;
+    setIsGlobalSearchOpen(false);
+    setIsBookmarksOpen(false);
+    if (sessionId !== activeSessionId) {
+      pendingJumpRef.current = true;
+      switchSession(sessionId);
+    }
+    selectMessageBranch(sessionId, messageId);
+    jumpToMessage(target);
+  }, [sessions, activeSessionId, switchSession, selectMessageBranch, jumpToMessage]);
+
+  const openPinned = useCallback((message: Message) => {
+    if (activeSessionId) openMessage(activeSessionId, message.id);
+  }, [activeSessionId, openMessage]);
+
+  const handleBookmark = useCallback((message: Message, bookmark: MessageBookmark | null) => {
+    if (activeSessionId) updateMessage(activeSessionId, message.id, { bookmark: bookmark ?? undefined });
+  }, [activeSessionId, updateMessage]);
+
+  const handleFeedback = useCallback((message: Message, feedback: MessageFeedback) => {
+    if (!activeSession) return;
+    updateMessage(activeSession.id, message.id, { feedback });
+    sendFeedback({
+      ...feedback,
+      sessionId: activeSession.id,
+      messageId: message.id,
+      agentId: answeringAgent(message, activeSession.agentId),
+      content: message.content,
+    });
+  }, [activeSession, updateMessage]);
+
+  // Reply to a message, or to a passage selected in it; the quote waits in the composer draft
+  const handleQuote = useCallback((message: Message, excerpt?: string) => {
+    if (!activeSessionId) return;
+    const quote: MessageQuote = {
+      messageId: message.id,
+      excerpt: excerpt ?? message.content,
+      author: message.role === 'user' ? 'You' : message.agentId || 'AI',
+    };
+    updateSessionDraft(activeSessionId, d => ({ ...d, quote }));
+    textareaRef.current?.focus();
+  }, [activeSessionId, updateSessionDraft]);
+
+  const removeQuote = () => {
+    if (activeSessionId) updateSessionDraft(activeSessionId, d => ({ ...d, quote: undefined }));
+  };
+
+  const openQuoted = useCallback((messageId: string) => {
+    if (activeSessionId) openMessage(activeSessionId, messageId);
+  }, [activeSessionId, openMessage]);
+
+  // Editing a user message resends it as a sibling, keeping the original branch intact. Its files are
+  // read back from the attachment store under new ids, so discarding one copy leaves the other's files;
+  // files no longer stored are dropped.
+  const handleEditResend = useCallback(async (message: Message, content: string) => {
+    const stored = await Promise.all((message.attachments || []).map(a => getAttachmentFile(a.id)));
+    const attachments = (message.attachments || []).flatMap((attachment, i) => {
+      const file = stored[i];
+      return file ? [{ attachment: { ...attachment, id: `att-${Date.now()}-${generateId()}` }, file }] : [];
+    });
+    sendMessage(content, message.parentId ?? null, attachments, message.quote);
+  }, [sendMessage]);
+
+  // Stable between renders that don't touch the list, so VirtualMessageList's memo holds
+  const renderMessage = useCallback((message: Message) => {
+    const siblings = tree ? getSiblings(tree, message, childrenIndex) : [message];
+    return (
+      <MessageItem
+        message={message}
+        branchIndex={siblings.findIndex(m => m.id === message.id)}
+        branchCount={siblings.length}
+        isBusy={isLoading}
+        onSelectBranch={handleSelectBranch}
+        onEditResend={message.id === 'welcome' ? undefined : handleEditResend}
+        onRegenerate={message.id === 'welcome' || message.agentId === 'router' ? undefined : handleRegenerate}
+        onCompare={setComparingMessage}
+        highlighted={message.id === highlightedMessageId}
+        onBookmark={message.id === 'welcome' || message.agentId === 'router' ? undefined : handleBookmark}
+        onFeedback={message.id === 'welcome' || message.agentId === 'router' ? undefined : handleFeedback}
+        onQuote={message.id === 'welcome' || message.agentId === 'router' ? undefined : handleQuote}
+        onOpenQuote={openQuoted}
+        onOpenToolDetails={openToolDetails}
+        onJump={searchQuery ? jumpToMessage : undefined}
+      />
+    );
+  }, [tree, childrenIndex, isLoading, highlightedMessageId, searchQuery, handleSelectBranch, handleEditResend, handleRegenerate, handleBookmark, handleFeedback, handleQuote, openQuoted, openToolDetails, jumpToMessage]);
+
+  const showCommandNotice = (notice: string) => {
+    setCommandNotice(notice);
+    setTimeout(() => setCommandNotice(current => (current === notice ? null : current)), 3000);
+  };
+
+  const handleSend = async () => {
+    if ((!inputValue.trim() && pendingAttachments.length === 0) || isLoading) return;
+
+    // Commands known to the UI run locally; unknown ones are nanobot's and go to the backend as-is
+    const parsed = parseSlashCommand(inputValue);
+    const command = parsed && findSlashCommand(parsed.name);
+    if (parsed && command) {
+      setInputValue('');
+      try {
+        const notice = await command.run(parsed.args);
+        if (notice) showCommandNotice(notice);
+      } catch (error) {
+        console.error(`Command /${command.name} failed:`, error);
+        showCommandNotice(`/${command.name} failed`);
+      }
+      return;
     }
-  }, [isLoading, activeSession, addMessageToSession, updateSessionName]);
 
-  const handleSend = () => {
-    if (!inputValue.trim() || isLoading) return;
-    sendMessage(inputValue);
-    setInputValue('');
+    // The draft's files stay stored: they now belong to the sent message
+    sendMessage(inputValue, undefined, pendingAttachments, draft?.quote);
+    if (activeSessionId) updateSessionDraft(activeSessionId, () => ({ text: '', attachments: [] }));
     if (textareaRef.current) textareaRef.current.style.height = 'auto';
   };
 
+  // Put text at the caret (replacing any selection) and move the caret after it
+  const insertIntoComposer = (text: string) => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? inputValue.length;
+    const end = textarea?.selectionEnd ?? inputValue.length;
+    const next = inputValue.slice(0, start) + text + inputValue.slice(end);
+    const cursor = start + text.length;
+    setInputValue(next);
+    setCaretPosition(cursor);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  const handlePickSnippet = (snippet: Snippet) => {
+    setIsSnippetPickerOpen(false);
+    const variables = extractVariables(snippet.content);
+    if (variables.length > 0) setPendingSnippet({ snippet, variables });
+    else insertIntoComposer(snippet.content);
+  };
+
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0 || !activeSessionId) return;
+    const added = await Promise.all(files.map(toPendingAttachment));
+    added.forEach(({ attachment, file }) => putAttachmentFile(attachment.id, file));
+    setDraftFiles(prev => ({ ...prev, ...Object.fromEntries(added.map(a => [a.attachment.id, a.file])) }));
+    updateSessionDraft(activeSessionId, d => ({ ...d, attachments: [...d.attachments, ...added.map(a => a.attachment)] }));
+  };
+
+  const removeAttachment = (id: string) => {
+    if (!activeSessionId) return;
+    updateSessionDraft(activeSessionId, d => ({ ...d, attachments: d.attachments.filter(a => a.id !== id) }));
+    deleteAttachmentFiles([id]);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = filesFromDataTransfer(e.clipboardData);
+    if (files.length === 0) return; // plain text paste
+    e.preventDefault();
+    addFiles(files);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDragOver(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Ignore leaving into a child element of the list
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDragOver(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    addFiles(filesFromDataTransfer(e.dataTransfer));
+  };
+
+  const applySuggestion = (suggestion: SlashSuggestion | MentionSuggestion) => {
+    const cursor = 'cursor' in suggestion ? suggestion.cursor : suggestion.value.length;
+    setInputValue(suggestion.value);
+    setCaretPosition(cursor);
+    setSuggestionIndex(0);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(cursor, cursor);
+    });
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (showSuggestions) {
+      const selected = suggestions[Math.min(suggestionIndex, suggestions.length - 1)];
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setSuggestionIndex(i => (i + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setSuggestionsDismissed(true);
+        return;
+      }
+      // Enter completes a partial command or mention; once it's fully typed, Enter sends
+      if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey && selected.value.trimEnd() !== inputValue.trimEnd())) {
+        e.preventDefault();
+        applySuggestion(selected);
+        return;
+      }
+    }
     if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSend(); }
   };
 
-  const handleClearHistory = async () => {
+  const handleClearHistory = useCallback(async () => {
     if (activeSession) {
       // Clear from backend
       try {
@@ -815,8 +2599,70 @@ export function Chat() {
       // Clear from frontend
       clearSessionMessages(activeSession.id);
     }
-    setMessages(DEFAULT_MESSAGES);
-  };
+  }, [activeSession, clearSessionMessages]);
+
+  // Built-in composer commands; other features register theirs with useRegisterSlashCommands too
+  const chatCommands = useMemo<SlashCommand[]>(() => [
+    { name: 'clear', description: 'Clear the conversation', run: () => handleClearHistory() },
+    { name: 'new', description: 'Start a new conversation', run: () => { createSession(activeSession?.agentId); } },
+    {
+      name: 'agent',
+      description: 'Switch the agent of this conversation',
+      args: '<id>',
+      suggestArgs: () => availableAgents.map(a => a.id),
+      run: (args) => {
+        if (!activeSession) return;
+        const agent = availableAgents.find(a => a.id === args);
+        if (!agent) return `Unknown agent "${args}"`;
+        updateSessionAgent(activeSession.id, agent.id);
+        return `Switched to ${agent.name}`;
+      },
+    },
+    {
+      name: 'multi',
+      description: 'Turn multi-agent mode on or off',
+      args: 'on|off',
+      suggestArgs: () => ['on', 'off'],
+      run: (args) => {
+        if (args !== 'on' && args !== 'off') return 'Usage: /multi on|off';
+        setMultiAgentEnabled(args === 'on');
+        return `Multi-agent mode ${args}`;
+      },
+    },
+    {
+      name: 'todo',
+      description: 'Add a todo',
+      args: '<title>',
+      run: (args) => {
+        if (!args) return 'Usage: /todo <title>';
+        appendTodo(args);
+        return `Added todo "${args}"`;
+      },
+    },
+    {
+      name: 'export',
+      description: 'Download this conversation (Markdown by default)',
+      args: '[markdown|json|html]',
+      suggestArgs: () => EXPORT_FORMATS.map(f => f.value),
+      run: (args) => {
+        if (!activeSession) return;
+        const format = EXPORT_FORMATS.find(f => f.value === (args || 'markdown'));
+        if (!format) return `Unknown format "${args}", use markdown, json or html`;
+        downloadSession(activeSession, format.value);
+      },
+    },
+    {
+      name: 'persona',
+      description: 'Edit a persona file',
+      args: '<file>',
+      suggestArgs: () => [...PERSONA_FILES],
+      run: (args) => {
+        if (args && !isPersonaFile(args)) return `Unknown persona file "${args}"`;
+        navigate(args ? `/persona?file=${encodeURIComponent(args)}` : '/persona');
+      },
+    },
+  ], [activeSession, availableAgents, createSession, updateSessionAgent, setMultiAgentEnabled, handleClearHistory, navigate]);
+  useRegisterSlashCommands(chatCommands);
 
   return (
     <div className="h-full min-h-0 flex flex-col bg-[#FAFAFA] dark:bg-[#1A1A1A] overflow-hidden">
@@ -830,8 +2676,30 @@ export function Chat() {
               </motion.div>
             )}
           </AnimatePresence>
+          <AnimatePresence>
+            {isReconnecting && (
+              <motion.div initial={{ opacity: 0, y: -10, scale: 0.9 }} animate={{ opacity: 1, y: 0, scale: 1 }} exit={{ opacity: 0, y: -10, scale: 0.9 }} className="flex items-center gap-1.5 px-3 py-1.5 bg-amber-50 border border-amber-200 rounded-full text-xs text-amber-700" role="status">
+                <span className="animate-pulse">●</span>
+                <span>Connection lost, reconnecting...</span>
+              </motion.div>
+            )}
+          </AnimatePresence>
+          <AnimatePresence>
+            {!isBackendReachable && (
+              <motion.div initial={{ opacity: 0, y: -10, scale: 0.9 }} animate={{ opacity: 1, y: 0, scale: 1 }} exit={{ opacity: 0, y: -10, scale: 0.9 }} className="flex items-center gap-1.5 px-3 py-1.5 bg-amber-50 border border-amber-200 rounded-full text-xs text-amber-700" role="status">
+                <span>●</span>
+                <span>Offline{activeSession?.outbox?.length ? ` · ${activeSession.outbox.length} waiting to send` : ''}</span>
+                <button onClick={checkBackend} className="ml-1 underline hover:no-underline">Retry</button>
+              </motion.div>
+            )}
+          </AnimatePresence>
         </div>
         <div className="flex items-center gap-2">
+          {totalTokens(sessionUsage.usage) > 0 && (
+            <span className="text-xs text-[#999999] tabular-nums px-1" title={describeUsage({ ...sessionUsage.usage, model: undefined }, sessionCost)}>
+              {formatTokens(totalTokens(sessionUsage.usage))} tokens{sessionCost !== null && ` · ${formatCost(sessionCost)}`}
+            </span>
+          )}
           {/* Search Messages */}
           <input
             type="text"
@@ -840,7 +2708,14 @@ export function Chat() {
             onChange={(e) => setSearchQuery(e.target.value)}
             className="text-xs px-3 py-1.5 rounded-lg border border-[#E5E5E5] dark:border-[#444444] bg-white dark:bg-[#333333] text-[#1A1A1A] dark:text-white placeholder-[#999999] focus:outline-none focus:ring-1 focus:ring-[#1A1A1A] dark:focus:ring-white"
           />
-          <button onClick={() => setIsToolPanelOpen(true)} className={`text-xs px-3 py-1.5 rounded-lg transition-colors ${progressSteps.length > 0 ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 hover:bg-blue-200' : 'text-[#666666] dark:text-[#999999] hover:text-[#1A1A1A] dark:hover:text-white hover:bg-[#F5F5F5] dark:hover:bg-[#333333]'}`} title="View tool execution details">
+          <button onClick={() => setIsGlobalSearchOpen(true)} className="text-xs px-3 py-1.5 rounded-lg text-[#666666] dark:text-[#999999] hover:text-[#1A1A1A] dark:hover:text-white hover:bg-[#F5F5F5] dark:hover:bg-[#333333]" title="Search all sessions">
+            Search All
+          </button>
+          <button onClick={() => setIsBookmarksOpen(true)} className="text-xs px-3 py-1.5 rounded-lg text-[#666666] dark:text-[#999999] hover:text-[#1A1A1A] dark:hover:text-white hover:bg-[#F5F5F5] dark:hover:bg-[#333333]" title="Pinned messages in all sessions">
+            Bookmarks
+          </button>
+          {activeSession && <ExportMenu session={activeSession} />}
+          <button onClick={() => setToolPanelMessageId(latestToolMessage?.id ?? null)} disabled={!latestToolMessage} className={`text-xs px-3 py-1.5 rounded-lg transition-colors disabled:opacity-40 ${progressSteps.length > 0 ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 hover:bg-blue-200' : 'text-[#666666] dark:text-[#999999] hover:text-[#1A1A1A] dark:hover:text-white hover:bg-[#F5F5F5] dark:hover:bg-[#333333]'}`} title={latestToolMessage ? 'Tool timeline of the latest answer that used tools' : 'No tool executions yet'}>
             Tools {progressSteps.length > 0 && `(${progressSteps.length})`}
           </button>
           {/* Multi-Agent Mode Toggle */}
@@ -855,7 +2730,47 @@ export function Chat() {
         </div>
       </div>
 
-      <ToolDetailsPanel isOpen={isToolPanelOpen} onClose={() => setIsToolPanelOpen(false)} progressSteps={progressSteps} toolCalls={messages.flatMap(m => m.toolCalls || [])} />
+      <AnimatePresence>
+        {comparingMessage && activeSession && (() => {
+          const variants = getSiblings(activeSession.tree, comparingMessage, childrenIndex);
+          return variants.length > 1 && (
+            <VariantDiffModal
+              key={comparingMessage.id}
+              variants={variants}
+              initialIndex={variants.findIndex(v => v.id === comparingMessage.id)}
+              onClose={() => setComparingMessage(null)}
+            />
+          );
+        })()}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isGlobalSearchOpen && <GlobalSearchModal onSelect={openMessage} onClose={() => setIsGlobalSearchOpen(false)} />}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isBookmarksOpen && <BookmarksPanel onOpen={openMessage} onClose={() => setIsBookmarksOpen(false)} />}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {pendingSnippet && (
+          <SnippetVariablesModal
+            snippet={pendingSnippet.snippet}
+            variables={pendingSnippet.variables}
+            onClose={() => setPendingSnippet(null)}
+            onSubmit={(values) => {
+              insertIntoComposer(fillSnippet(pendingSnippet.snippet.content, values));
+              setPendingSnippet(null);
+            }}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {toolPanelMessage && <ToolDetailsPanel key={toolPanelMessage.id} message={toolPanelMessage} onClose={() => setToolPanelMessageId(null)} />}
+      </AnimatePresence>
+
+      {pinnedMessages.length > 0 && <PinnedStrip pinned={pinnedMessages} onOpen={openPinned} />}
 
       <AnimatePresence>
         {progressSteps.length > 0 && (
@@ -868,12 +2783,31 @@ export function Chat() {
         )}
       </AnimatePresence>
 
-      <div ref={messagesContainerRef} onScroll={handleScroll} className="flex-1 min-h-0 overflow-auto p-4 space-y-4">
-        <AnimatePresence initial={false}>
-          {(searchQuery ? messages.filter(m => m.content.toLowerCase().includes(searchQuery.toLowerCase())) : messages).map((message) => <MessageItem key={message.id} message={message} />)}
+      <div
+        ref={messagesContainerRef}
+        onScroll={handleScroll}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        className={`relative flex-1 min-h-0 overflow-auto p-4 space-y-4 ${isDragOver ? 'ring-2 ring-inset ring-blue-400 bg-blue-50/50 dark:bg-blue-900/10' : ''}`}
+      >
+        {isDragOver && (
+          <div className="sticky top-0 z-10 flex justify-center pointer-events-none">
+            <span className="px-3 py-1.5 text-sm bg-blue-500 text-white rounded-full shadow">Drop files to attach</span>
+          </div>
+        )}
+        <VirtualMessageList
+          messages={listedMessages}
+          scrollElementRef={messagesContainerRef}
+          jumpTargetId={jumpTargetId}
+          onJumped={handleJumped}
+          renderMessage={renderMessage}
+        />
+        <AnimatePresence>
+          {isStreaming && (streamingContent || streamingReasoning) && <StreamingContent content={streamingContent} reasoning={streamingReasoning} />}
         </AnimatePresence>
         <AnimatePresence>
-          {isStreaming && streamingContent && <StreamingContent content={streamingContent} />}
+          {pendingApprovals.map(approval => <ApprovalCard key={approval.request.id} approval={approval} onDecide={decideApproval} />)}
         </AnimatePresence>
         
         {/* Multi-Agent Response Cards */}
@@ -886,12 +2820,16 @@ export function Chat() {
               className="space-y-3"
             >
               {Object.entries(multiAgentResponses).map(([agentId, response]) => (
-                <MultiAgentCard key={agentId} agentId={agentId} response={response} />
+                <MultiAgentCard key={agentId} agentId={agentId} response={response} onCancel={() => handleCancelAgent(agentId)} />
               ))}
             </motion.div>
           )}
         </AnimatePresence>
         
+        {activeSession?.outbox?.map(message => (
+          <PendingMessageItem key={message.id} message={message} sending={sendingMessageIds.includes(message.id)} onEdit={editPending} onRetry={retryPending} onCancel={cancelPending} />
+        ))}
+
         <AnimatePresence>
           {isThinking && <TypingIndicator isThinking={true} />}
         </AnimatePresence>
@@ -899,23 +2837,112 @@ export function Chat() {
       </div>
 
       <div className="shrink-0 p-4 border-t border-[#E5E5E5] dark:border-[#333333] bg-white dark:bg-[#242424]">
+        {commandNotice && <p className="text-xs text-[#666666] dark:text-[#999999] mb-2">{commandNotice}</p>}
+        {draft?.quote && (
+          <div className="flex items-start gap-2 mb-3 pl-3 pr-2 py-2 border-l-2 border-[#1A1A1A] dark:border-white bg-[#F5F5F5] dark:bg-[#333333] rounded-r-lg">
+            <div className="flex-1 min-w-0 text-xs">
+              <span className="font-medium text-[#1A1A1A] dark:text-white">Replying to {draft.quote.author}</span>
+              <p className="text-[#666666] dark:text-[#999999] line-clamp-2 whitespace-pre-wrap">{draft.quote.excerpt}</p>
+            </div>
+            <button onClick={removeQuote} className="p-1 rounded text-[#999999] hover:text-[#1A1A1A] dark:hover:text-white" title="Remove quote">✕</button>
+          </div>
+        )}
+        {pendingAttachments.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-3">
+            {pendingAttachments.map(({ attachment }) => (
+              <AttachmentChip key={attachment.id} attachment={attachment} onRemove={() => removeAttachment(attachment.id)} />
+            ))}
+          </div>
+        )}
         <div className="flex gap-3 items-start">
-          <div className="flex-1">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              addFiles(Array.from(e.target.files || []));
+              e.target.value = ''; // allow picking the same file again
+            }}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading}
+            className="p-3 mt-1 rounded-2xl text-[#666666] dark:text-[#999999] hover:bg-[#F5F5F5] dark:hover:bg-[#333333] disabled:opacity-40 transition-colors"
+            title="Attach files"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
+            </svg>
+          </button>
+          <div className="relative">
+            <button
+              onClick={() => setIsSnippetPickerOpen(open => !open)}
+              disabled={isLoading}
+              className={`p-3 mt-1 rounded-2xl text-[#666666] dark:text-[#999999] hover:bg-[#F5F5F5] dark:hover:bg-[#333333] disabled:opacity-40 transition-colors ${isSnippetPickerOpen ? 'bg-[#F5F5F5] dark:bg-[#333333]' : ''}`}
+              title="Insert snippet"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7v8a2 2 0 002 2h6M8 7V5a2 2 0 012-2h4.586a1 1 0 01.707.293l4.414 4.414a1 1 0 01.293.707V15a2 2 0 01-2 2h-2M8 7H6a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2v-2" />
+              </svg>
+            </button>
+            <AnimatePresence>
+              {isSnippetPickerOpen && (
+                <SnippetPicker snippets={snippets} onPick={handlePickSnippet} onClose={() => setIsSnippetPickerOpen(false)} />
+              )}
+            </AnimatePresence>
+          </div>
+          <div className="flex-1 relative">
+            <AnimatePresence>
+              {showSuggestions && (
+                <motion.ul
+                  initial={{ opacity: 0, y: 4 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: 4 }}
+                  className="absolute bottom-full left-0 right-0 mb-2 max-h-60 overflow-y-auto py-1 bg-white dark:bg-[#2A2A2A] border border-[#E5E5E5] dark:border-[#444444] rounded-xl shadow-lg z-20"
+                >
+                  {suggestions.map((suggestion, index) => (
+                    <li key={suggestion.value}>
+                      <button
+                        onMouseDown={(e) => e.preventDefault()} // keep focus in the textarea
+                        onClick={() => applySuggestion(suggestion)}
+                        onMouseEnter={() => setSuggestionIndex(index)}
+                        className={`w-full flex items-baseline gap-3 px-3 py-2 text-left text-sm ${index === suggestionIndex ? 'bg-[#F5F5F5] dark:bg-[#333333]' : ''}`}
+                      >
+                        <span className="font-mono text-[#1A1A1A] dark:text-white">{suggestion.label}</span>
+                        {suggestion.description && <span className="text-xs text-[#888888] dark:text-[#999999] truncate">{suggestion.description}</span>}
+                      </button>
+                    </li>
+                  ))}
+                </motion.ul>
+              )}
+            </AnimatePresence>
             <textarea
               ref={textareaRef}
               value={inputValue}
-              onChange={(e) => setInputValue(e.target.value)}
+              onChange={(e) => {
+                setInputValue(e.target.value);
+                setCaretPosition(e.target.selectionStart);
+                setSuggestionIndex(0);
+                setSuggestionsDismissed(false);
+              }}
+              onSelect={(e) => setCaretPosition(e.currentTarget.selectionStart)}
               onKeyDown={handleKeyDown}
-              placeholder="Type your message... (Shift+Enter for new line)"
+              onPaste={handlePaste}
+              placeholder={multiAgentSettings.enabled ? 'Type your message... (@agent to address agents directly)' : 'Type your message... (Shift+Enter for new line)'}
               className="w-full px-4 py-3 text-sm bg-white dark:bg-[#333333] border border-[#E5E5E5] dark:border-[#444444] rounded-2xl resize-none focus:outline-none focus:ring-2 focus:ring-[#1A1A1A] dark:focus:ring-white focus:border-transparent transition-all duration-200 text-[#1A1A1A] dark:text-white placeholder:text-[#999999]"
               rows={1}
               disabled={isLoading}
               style={{ minHeight: '48px', maxHeight: '150px' }}
             />
           </div>
-          <Button onClick={handleSend} disabled={!inputValue.trim() || isLoading} className="px-6 py-3 rounded-2xl font-medium whitespace-nowrap mt-1">Send</Button>
+          {isLoading ? (
+            <Button variant="danger" onClick={handleStop} className="px-6 py-3 rounded-2xl font-medium whitespace-nowrap mt-1" title="Stop generating">Stop</Button>
+          ) : (
+            <Button onClick={handleSend} disabled={!inputValue.trim() && pendingAttachments.length === 0} className="px-6 py-3 rounded-2xl font-medium whitespace-nowrap mt-1">Send</Button>
+          )}
         </div>
-        <p className="text-xs text-[#999999] mt-2 text-center">Press Enter to send, Shift+Enter for new line</p>
+        <p className="text-xs text-[#999999] mt-2 text-center">Press Enter to send, Shift+Enter for new line, / for commands</p>
       </div>
     </div>
   );
@@ -0,0 +1,84 @@
+import { useMemo, useState } from 'react';
+import { Card } from '../components/ui/Card';
+import { useSession } from '../contexts/SessionContext';
+import { negativeFeedbackByAgent } from '../lib/feedback';
+import { formatDate } from '../lib/utils';
+
+export function Feedback() {
+  const { sessions, availableAgents } = useSession();
+  const [expandedAgent, setExpandedAgent] = useState<string | null>(null);
+
+  const reports = useMemo(() => negativeFeedbackByAgent(sessions), [sessions]);
+  const ratedCount = useMemo(
+    () => sessions.reduce((count, s) => count + s.tree.nodes.filter(m => m.feedback).length, 0),
+    [sessions]
+  );
+  const agentName = (agentId: string) => availableAgents.find(a => a.id === agentId)?.name || agentId;
+
+  return (
+    <div className="p-6 space-y-6 max-w-4xl h-full overflow-y-auto">
+      <div>
+        <h1 className="text-xl font-semibold text-[#1A1A1A] mb-1">Answer Feedback</h1>
+        <p className="text-sm text-[#666666]">
+          Thumbs-down answers by agent, to see which agent definitions under /api/agents need work
+          {ratedCount > 0 && ` · ${ratedCount} rated answer${ratedCount === 1 ? '' : 's'} in total`}
+        </p>
+      </div>
+
+      {reports.length === 0 ? (
+        <p className="text-sm text-[#999999] text-center py-8">
+          {ratedCount === 0 ? 'No feedback yet. Rate answers with the thumbs next to the copy button.' : 'No negative feedback.'}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {reports.map(report => {
+            const expanded = expandedAgent === report.agentId;
+            return (
+              <Card key={report.agentId} className="p-4 space-y-3">
+                <button
+                  onClick={() => setExpandedAgent(expanded ? null : report.agentId)}
+                  className="w-full flex items-center justify-between gap-3 text-left"
+                >
+                  <div className="min-w-0">
+                    <span className="text-sm font-medium text-[#1A1A1A]">{agentName(report.agentId)}</span>
+                    <span className="ml-2 text-xs text-[#999999] font-mono">{report.agentId}</span>
+                  </div>
+                  <span className="shrink-0 px-2 py-0.5 text-xs rounded-full bg-red-50 text-red-600">
+                    {report.entries.length} 👎
+                  </span>
+                </button>
+
+                {report.reasons.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {report.reasons.map(([reason, count]) => (
+                      <span key={reason} className="px-2.5 py-1 text-xs rounded-full bg-[#F5F5F5] text-[#666666]">
+                        {reason} · {count}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                {expanded && (
+                  <ul className="space-y-2 border-t border-[#E5E5E5] pt-3">
+                    {report.entries.map(({ session, message, feedback }) => (
+                      <li key={`${session.id}-${message.id}`} className="text-sm space-y-1">
+                        <div className="flex items-center gap-2 text-xs text-[#999999]">
+                          <span className="truncate">{session.name}</span>
+                          <span>·</span>
+                          <span className="shrink-0">{formatDate(feedback.createdAt)}</span>
+                          {feedback.reason && <span className="shrink-0 text-red-600">{feedback.reason}</span>}
+                        </div>
+                        {feedback.comment && <p className="text-[#1A1A1A]">"{feedback.comment}"</p>}
+                        <p className="text-xs text-[#666666] line-clamp-3 whitespace-pre-wrap">{message.content}</p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
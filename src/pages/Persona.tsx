@@ -1,12 +1,11 @@
 import { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import MDEditor from '@uiw/react-md-editor';
 import { Card } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
+import { PERSONA_FILES, isPersonaFile, type PersonaFileName } from '../lib/persona';
 
-const FILES = ['AGENTS.md', 'SOUL.md', 'USER.md', 'MEMORY.md', 'HISTORY.md'] as const;
-type FileName = typeof FILES[number];
-
-const DEFAULT_CONTENTS: Record<FileName, string> = {
+const DEFAULT_CONTENTS: Record<PersonaFileName, string> = {
   'AGENTS.md': `# Agent Instructions
 
 You are nanobot, a lightweight AI assistant designed to help users with various tasks.
@@ -51,11 +50,11 @@ This file stores the conversation history for context.
 
 const STORAGE_KEY = 'nanobot_persona_files';
 
-function getStorageKey(file: FileName): string {
+function getStorageKey(file: PersonaFileName): string {
   return `${STORAGE_KEY}_${file}`;
 }
 
-function loadFileContent(file: FileName): string {
+function loadFileContent(file: PersonaFileName): string {
   const stored = localStorage.getItem(getStorageKey(file));
   if (stored !== null) {
     return stored;
@@ -63,12 +62,15 @@ function loadFileContent(file: FileName): string {
   return DEFAULT_CONTENTS[file];
 }
 
-function saveFileContent(file: FileName, content: string): void {
+function saveFileContent(file: PersonaFileName, content: string): void {
   localStorage.setItem(getStorageKey(file), content);
 }
 
 export function Persona() {
-  const [selectedFile, setSelectedFile] = useState<FileName>('AGENTS.md');
+  // ?file=SOUL.md opens that file directly (used by the /persona chat command)
+  const [searchParams] = useSearchParams();
+  const fileParam = searchParams.get('file') || '';
+  const [selectedFile, setSelectedFile] = useState<PersonaFileName>(isPersonaFile(fileParam) ? fileParam : 'AGENTS.md');
   const [content, setContent] = useState<string>('');
   const [originalContent, setOriginalContent] = useState<string>('');
   const [saveStatus, setSaveStatus] = useState<'idle' | 'success' | 'error'>('idle');
@@ -98,7 +100,7 @@ export function Persona() {
     setSaveStatus('idle');
   }, [originalContent]);
 
-  const handleFileClick = (file: FileName) => {
+  const handleFileClick = (file: PersonaFileName) => {
     setSelectedFile(file);
   };
 
@@ -115,7 +117,7 @@ export function Persona() {
         <div>
           <label className="text-sm font-medium text-[#1A1A1A] block mb-3">Select File:</label>
           <div className="flex flex-wrap gap-2">
-            {FILES.map((file) => (
+            {PERSONA_FILES.map((file) => (
               <button
                 key={file}
                 onClick={() => handleFileClick(file)}
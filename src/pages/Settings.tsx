@@ -4,6 +4,10 @@ import { Button } from '../components/ui/Button';
 import { Switch } from '../components/ui/Switch';
 import { Select } from '../components/ui/Select';
 import { Input } from '../components/ui/Input';
+import { DEFAULT_PRICES, SETTINGS_CHANGED_EVENT, type ModelPrice } from '../lib/usage';
+import { WORKSPACE_ROOT } from '../lib/workspace';
+import { DEFAULT_REASONING_DISPLAY, REASONING_DISPLAYS, type ReasoningDisplay } from '../lib/reasoning';
+import { APPROVAL_POLICIES, DEFAULT_APPROVAL_POLICIES, type ApprovalPolicy } from '../lib/toolApproval';
 
 // ============ Types ============
 interface AgentSettings {
@@ -60,6 +64,7 @@ interface ToolsSettings {
   mcp_servers: MCPServer[];
   exec_timeout: number;
   restrict_to_workspace: boolean;
+  approval_policies: Record<string, ApprovalPolicy>; // by tool name
 }
 
 interface MCPServer {
@@ -73,6 +78,8 @@ interface MCPServer {
 interface WebSettings {
   startup_remind_todos: boolean;
   theme: 'light' | 'dark' | 'system';
+  pricing: ModelPrice[]; // USD per million tokens, for the usage estimates in chat
+  reasoning_display: ReasoningDisplay; // model reasoning above answers in chat
 }
 
 interface NanobotSettings {
@@ -144,10 +151,13 @@ const DEFAULT_SETTINGS: NanobotSettings = {
     mcp_servers: [],
     exec_timeout: 30,
     restrict_to_workspace: true,
+    approval_policies: DEFAULT_APPROVAL_POLICIES,
   },
   web: {
     startup_remind_todos: false,
     theme: 'system',
+    pricing: DEFAULT_PRICES,
+    reasoning_display: DEFAULT_REASONING_DISPLAY,
   },
 };
 
@@ -161,6 +171,7 @@ export function Settings() {
   const [expandedChannel, setExpandedChannel] = useState<string | null>(null);
   const [mcpForm, setMcpForm] = useState({ name: '', command: '', args: '', env_key: '', env_value: '' });
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [approvalTool, setApprovalTool] = useState('');
 
   // Load settings from localStorage on mount
   useEffect(() => {
@@ -169,7 +180,7 @@ export function Settings() {
       try {
         const parsed = JSON.parse(saved);
         // Merge with defaults to ensure all fields exist
-        setSettings({ ...DEFAULT_SETTINGS, ...parsed });
+        setSettings({ ...DEFAULT_SETTINGS, ...parsed, tools: { ...DEFAULT_SETTINGS.tools, ...parsed.tools }, web: { ...DEFAULT_SETTINGS.web, ...parsed.web } });
       } catch (e) {
         console.error('Failed to parse saved settings:', e);
       }
@@ -183,7 +194,7 @@ export function Settings() {
     return {
       agents: {
         defaults: {
-          workspace: '~/.nanobot/workspace',
+          workspace: WORKSPACE_ROOT,
           model: frontendSettings.agent.model,
           maxTokens: frontendSettings.agent.max_tokens,
           temperature: frontendSettings.agent.temperature,
@@ -204,6 +215,7 @@ export function Settings() {
         mcp_servers: frontendSettings.tools.mcp_servers,
         exec_timeout: frontendSettings.tools.exec_timeout,
         restrict_to_workspace: frontendSettings.tools.restrict_to_workspace,
+        approval_policies: frontendSettings.tools.approval_policies,
       },
     };
   };
@@ -219,6 +231,7 @@ export function Settings() {
     try {
       // Save to localStorage
       localStorage.setItem('nanobot-settings', JSON.stringify(settings));
+      window.dispatchEvent(new CustomEvent(SETTINGS_CHANGED_EVENT));
       
       // Transform to nanobot format and save to config file
       const nanobotConfig = transformToNanobotConfig(settings);
@@ -286,10 +299,13 @@ export function Settings() {
         mcp_servers: tools.mcp_servers || [],
         exec_timeout: tools.exec_timeout || 30,
         restrict_to_workspace: tools.restrict_to_workspace ?? true,
+        approval_policies: { ...DEFAULT_APPROVAL_POLICIES, ...tools.approval_policies },
       },
       web: {
         startup_remind_todos: false,
         theme: 'system',
+        pricing: settings.web.pricing, // web-only, not part of the nanobot config
+        reasoning_display: settings.web.reasoning_display,
       },
     };
   };
@@ -310,7 +326,7 @@ export function Settings() {
         if (saved) {
           try {
             const parsed = JSON.parse(saved);
-            setSettings({ ...DEFAULT_SETTINGS, ...parsed });
+            setSettings({ ...DEFAULT_SETTINGS, ...parsed, tools: { ...DEFAULT_SETTINGS.tools, ...parsed.tools }, web: { ...DEFAULT_SETTINGS.web, ...parsed.web } });
           } catch (e) {
             console.error('Failed to parse saved settings:', e);
           }
@@ -342,14 +358,18 @@ export function Settings() {
     }));
   };
 
-  const updateTools = (field: keyof ToolsSettings, value: string | number | boolean | MCPServer[]) => {
+  const updateTools = (field: keyof ToolsSettings, value: string | number | boolean | MCPServer[] | Record<string, ApprovalPolicy>) => {
     setSettings(prev => ({
       ...prev,
       tools: { ...prev.tools, [field]: value }
     }));
   };
 
-  const updateWeb = (field: keyof WebSettings, value: boolean | string) => {
+  const updatePrice = (index: number, field: keyof ModelPrice, value: string | number) => {
+    updateWeb('pricing', settings.web.pricing.map((p, i) => i === index ? { ...p, [field]: value } : p));
+  };
+
+  const updateWeb = (field: keyof WebSettings, value: boolean | string | ModelPrice[]) => {
     setSettings(prev => ({
       ...prev,
       web: { ...prev.web, [field]: value }
@@ -616,6 +636,85 @@ export function Settings() {
                 />
               </div>
             </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-[#1A1A1A]">工具审批</label>
+              <p className="text-xs text-[#666666]">Agent 运行工具前在聊天中确认；未列出的工具每次询问</p>
+              {Object.entries(settings.tools.approval_policies).map(([tool, policy]) => (
+                <div key={tool} className="grid grid-cols-[1fr_160px_auto] gap-2 items-center">
+                  <span className="text-sm font-mono text-[#1A1A1A]">{tool}</span>
+                  <Select
+                    options={APPROVAL_POLICIES}
+                    value={policy}
+                    onValueChange={(value) => updateTools('approval_policies', { ...settings.tools.approval_policies, [tool]: value as ApprovalPolicy })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-12"
+                    disabled={tool in DEFAULT_APPROVAL_POLICIES}
+                    onClick={() => updateTools('approval_policies', Object.fromEntries(Object.entries(settings.tools.approval_policies).filter(([name]) => name !== tool)))}
+                  >
+                    删除
+                  </Button>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <Input placeholder="工具名称，如 MCP 工具" value={approvalTool} onChange={(e) => setApprovalTool(e.target.value)} />
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  disabled={!approvalTool.trim() || approvalTool.trim() in settings.tools.approval_policies}
+                  onClick={() => {
+                    updateTools('approval_policies', { ...settings.tools.approval_policies, [approvalTool.trim()]: 'ask' });
+                    setApprovalTool('');
+                  }}
+                >
+                  添加工具
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="border-t border-[#E5E5E5] pt-6">
+          <h2 className="text-sm font-semibold text-[#1A1A1A] mb-1 flex items-center gap-2">
+            <span className="w-1 h-4 bg-[#1A1A1A] rounded-full"></span>
+            价格表
+          </h2>
+          <p className="text-xs text-[#666666] mb-4">每百万 tokens 的美元价格，用于估算对话费用；模型名也匹配带日期的版本</p>
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_1.5fr_repeat(3,0.8fr)_auto] gap-2 text-xs font-medium text-[#666666] uppercase">
+              <span>Provider</span>
+              <span>Model</span>
+              <span>Input</span>
+              <span>Output</span>
+              <span>Cached</span>
+              <span className="w-12"></span>
+            </div>
+            {settings.web.pricing.map((price, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1.5fr_repeat(3,0.8fr)_auto] gap-2 items-center">
+                <Input value={price.provider} onChange={(e) => updatePrice(index, 'provider', e.target.value)} placeholder="openai" />
+                <Input value={price.model} onChange={(e) => updatePrice(index, 'model', e.target.value)} placeholder="gpt-4o" />
+                {(['input', 'output', 'cached'] as const).map(field => (
+                  <Input
+                    key={field}
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={price[field]}
+                    onChange={(e) => updatePrice(index, field, parseFloat(e.target.value) || 0)}
+                  />
+                ))}
+                <Button variant="ghost" size="sm" className="w-12" onClick={() => updateWeb('pricing', settings.web.pricing.filter((_, i) => i !== index))}>删除</Button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Button variant="secondary" size="sm" onClick={() => updateWeb('pricing', [...settings.web.pricing, { provider: '', model: '', input: 0, output: 0, cached: 0 }])}>
+                添加模型
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => updateWeb('pricing', DEFAULT_PRICES)}>恢复默认</Button>
+            </div>
           </div>
         </div>
 
@@ -641,6 +740,20 @@ export function Settings() {
                 <option value="system">跟随系统</option>
               </select>
             </div>
+            {/* Reasoning Display */}
+            <div className="flex items-center justify-between p-3 bg-[#FAFAFA] rounded-lg">
+              <div>
+                <span className="text-sm font-medium text-[#1A1A1A]">思考过程</span>
+                <p className="text-xs text-[#666666]">模型推理内容在回答上方的显示方式</p>
+              </div>
+              <select
+                value={settings.web.reasoning_display}
+                onChange={(e) => updateWeb('reasoning_display', e.target.value)}
+                className="px-3 py-1.5 rounded-lg border border-[#E5E5E5] bg-white dark:bg-[#333333] dark:border-[#444444] text-sm"
+              >
+                {REASONING_DISPLAYS.map(display => <option key={display.value} value={display.value}>{display.label}</option>)}
+              </select>
+            </div>
             {/* Startup Todo */}
             <div className="flex items-center justify-between p-3 bg-[#FAFAFA] rounded-lg">
               <div>
@@ -0,0 +1,178 @@
+import { useState, useRef, useMemo } from 'react';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { useSnippets } from '../contexts/SnippetContext';
+import { extractVariables, parseTags, type Snippet } from '../lib/snippets';
+import { downloadFile, formatDate } from '../lib/utils';
+
+interface SnippetDraft {
+  id: string | null; // null while creating a new snippet
+  name: string;
+  tags: string;
+  content: string;
+}
+
+const EMPTY_DRAFT: SnippetDraft = { id: null, name: '', tags: '', content: '' };
+
+export function Snippets() {
+  const { snippets, createSnippet, updateSnippet, deleteSnippet, importSnippets, exportSnippets } = useSnippets();
+  const [query, setQuery] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SnippetDraft | null>(null);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const allTags = useMemo(() => [...new Set(snippets.flatMap(s => s.tags))].sort(), [snippets]);
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return snippets.filter(s =>
+      (!activeTag || s.tags.includes(activeTag)) &&
+      (!q || s.name.toLowerCase().includes(q) || s.content.toLowerCase().includes(q))
+    );
+  }, [snippets, query, activeTag]);
+
+  const showNotice = (type: 'success' | 'error', text: string) => {
+    setNotice({ type, text });
+    setTimeout(() => setNotice(null), 3000);
+  };
+
+  const startEdit = (snippet: Snippet) => {
+    setDraft({ id: snippet.id, name: snippet.name, tags: snippet.tags.join(', '), content: snippet.content });
+  };
+
+  const saveDraft = () => {
+    if (!draft || !draft.name.trim() || !draft.content.trim()) return;
+    const input = { name: draft.name.trim(), tags: parseTags(draft.tags), content: draft.content };
+    if (draft.id) updateSnippet(draft.id, input);
+    else createSnippet(input);
+    setDraft(null);
+  };
+
+  const handleExport = () => {
+    downloadFile('nanobot-snippets.json', exportSnippets(), 'application/json');
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const { added, skipped } = importSnippets(await file.text());
+      showNotice('success', `Imported ${added} snippet${added === 1 ? '' : 's'}${skipped ? `, skipped ${skipped} duplicate${skipped === 1 ? '' : 's'}` : ''}`);
+    } catch (error) {
+      console.error('Failed to import snippets:', error);
+      showNotice('error', error instanceof Error ? `Import failed: ${error.message}` : 'Import failed');
+    }
+  };
+
+  const draftVariables = draft ? extractVariables(draft.content) : [];
+
+  return (
+    <div className="p-6 space-y-6 max-w-4xl h-full overflow-y-auto">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-semibold text-[#1A1A1A] mb-1">Prompt Snippets</h1>
+          <p className="text-sm text-[#666666]">Reusable prompts with {'{{variables}}'}, insertable from the chat composer</p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+          <Button variant="secondary" size="sm" onClick={() => fileInputRef.current?.click()}>Import</Button>
+          <Button variant="secondary" size="sm" onClick={handleExport} disabled={snippets.length === 0}>Export</Button>
+          <Button size="sm" onClick={() => setDraft(EMPTY_DRAFT)}>New Snippet</Button>
+        </div>
+      </div>
+
+      {notice && (
+        <p className={`text-sm ${notice.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>{notice.text}</p>
+      )}
+
+      {draft && (
+        <Card className="space-y-3">
+          <h2 className="text-sm font-medium text-[#1A1A1A]">{draft.id ? 'Edit Snippet' : 'New Snippet'}</h2>
+          <Input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="Name, e.g. Code review" autoFocus />
+          <Input value={draft.tags} onChange={(e) => setDraft({ ...draft, tags: e.target.value })} placeholder="Tags, comma separated" />
+          <textarea
+            value={draft.content}
+            onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+            placeholder="Review this {{language}} diff for bugs and style issues..."
+            rows={8}
+            className="w-full p-3 border border-[#E5E5E5] rounded-lg font-mono text-sm resize-y focus:outline-none focus:ring-2 focus:ring-[#1A1A1A] focus:border-transparent"
+          />
+          {draftVariables.length > 0 && (
+            <p className="text-xs text-[#666666]">
+              Variables: {draftVariables.map(v => <code key={v} className="mx-0.5 px-1 bg-[#F5F5F5] rounded">{v}</code>)}
+            </p>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={saveDraft} disabled={!draft.name.trim() || !draft.content.trim()}>Save</Button>
+          </div>
+        </Card>
+      )}
+
+      <div className="space-y-3">
+        <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search snippets..." />
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {allTags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+                className={`px-3 py-1 text-xs rounded-full transition-colors ${activeTag === tag ? 'bg-[#1A1A1A] text-white' : 'bg-[#F5F5F5] text-[#666666] hover:bg-[#E5E5E5]'}`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {filtered.length === 0 ? (
+        <p className="text-sm text-[#999999] text-center py-8">
+          {snippets.length === 0 ? 'No snippets yet. Create one or import a JSON file.' : 'No snippets match your search.'}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {filtered.map(snippet => (
+            <Card key={snippet.id} className="p-3">
+              {deleteConfirmId === snippet.id ? (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-[#DC2626]">Delete "{snippet.name}"?</span>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="secondary" onClick={() => setDeleteConfirmId(null)}>Cancel</Button>
+                    <Button size="sm" variant="danger" onClick={() => { deleteSnippet(snippet.id); setDeleteConfirmId(null); }}>Delete</Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-start gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-sm font-medium text-[#1A1A1A]">{snippet.name}</span>
+                      {snippet.tags.map(tag => <span key={tag} className="text-xs text-[#666666]">#{tag}</span>)}
+                    </div>
+                    <p className="text-xs text-[#666666] mt-1 line-clamp-2 whitespace-pre-wrap font-mono">{snippet.content}</p>
+                    <p className="text-xs text-[#999999] mt-1">Updated {formatDate(snippet.updatedAt)}</p>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Button variant="ghost" size="sm" onClick={() => startEdit(snippet)}>Edit</Button>
+                    <Button variant="ghost" size="sm" onClick={() => setDeleteConfirmId(snippet.id)} className="hover:text-[#DC2626]">Delete</Button>
+                  </div>
+                </div>
+              )}
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,15 +3,7 @@ import { Card } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
 import { Input } from '../components/ui/Input';
 import { Switch } from '../components/ui/Switch';
-
-interface Todo {
-  id: string;
-  title: string;
-  completed: boolean;
-  dueDate?: string;
-  createdAt: string;
-  updatedAt: string;
-}
+import { createTodo, TODOS_STORAGE_KEY, type Todo } from '../lib/todos';
 
 interface GroupedTodos {
   expired: Todo[];
@@ -21,12 +13,6 @@ interface GroupedTodos {
   noDate: Todo[];
 }
 
-const STORAGE_KEY = 'nanobot-todos';
-
-function generateId(): string {
-  return Math.random().toString(36).substring(2, 9) + Date.now().toString(36);
-}
-
 function getDateString(date: Date): string {
   return date.toISOString().split('T')[0];
 }
@@ -115,7 +101,7 @@ export function Todos() {
 
   // Load from localStorage on mount
   useEffect(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
+    const saved = localStorage.getItem(TODOS_STORAGE_KEY);
     if (saved) {
       try {
         const parsed = JSON.parse(saved);
@@ -133,7 +119,7 @@ export function Todos() {
 
   // Save to localStorage on change
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(todos));
+    localStorage.setItem(TODOS_STORAGE_KEY, JSON.stringify(todos));
   }, [todos]);
 
   // Generate AI suggestion when todos change
@@ -143,15 +129,7 @@ export function Todos() {
 
   const addTodo = () => {
     if (!newTodoTitle.trim()) return;
-    const now = new Date().toISOString();
-    const newTodo: Todo = {
-      id: generateId(),
-      title: newTodoTitle.trim(),
-      completed: false,
-      dueDate: newTodoDate || undefined,
-      createdAt: now,
-      updatedAt: now,
-    };
+    const newTodo = createTodo(newTodoTitle, newTodoDate);
     setTodos(prev => [...prev, newTodo]);
     setNewTodoTitle('');
     setNewTodoDate('');
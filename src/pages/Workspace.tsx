@@ -0,0 +1,325 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Markdown } from '../components/ui/Markdown';
+import { formatDate, formatFileSize } from '../lib/utils';
+import {
+  MAX_PREVIEW_BYTES,
+  WORKSPACE_ROOT,
+  deleteWorkspaceEntry,
+  joinPath,
+  listWorkspace,
+  parentPath,
+  previewKind,
+  readWorkspaceText,
+  renameWorkspaceEntry,
+  uploadWorkspaceFiles,
+  workspaceFileUrl,
+  type WorkspaceEntry,
+} from '../lib/workspace';
+
+const ROOT_ENTRY: WorkspaceEntry = { name: WORKSPACE_ROOT, path: '', type: 'directory' };
+
+// "a/b/c" -> ["", "a", "a/b"]
+function ancestorsOf(path: string): string[] {
+  const parts = path ? path.split('/') : [];
+  return ['', ...parts.slice(0, -1).map((_, i) => parts.slice(0, i + 1).join('/'))];
+}
+
+function FilePreview({ entry }: { entry: WorkspaceEntry }) {
+  const kind = previewKind(entry.path);
+  const tooLarge = entry.size !== undefined && entry.size > MAX_PREVIEW_BYTES;
+  const needsText = kind !== null && kind !== 'image' && !tooLarge;
+  const [loaded, setLoaded] = useState<{ text?: string; error?: string } | null>(null);
+
+  // Remounted per file (see the key below), so no stale content to clear
+  useEffect(() => {
+    if (!needsText) return;
+    let cancelled = false;
+    readWorkspaceText(entry.path)
+      .then(text => { if (!cancelled) setLoaded({ text }); })
+      .catch(error => { if (!cancelled) setLoaded({ error: error instanceof Error ? error.message : 'Failed to load file' }); });
+    return () => { cancelled = true; };
+  }, [entry.path, needsText]);
+
+  if (kind === null) return <p className="text-sm text-[#999999] text-center py-8">No preview for this file type. Download it to open it.</p>;
+  if (tooLarge) return <p className="text-sm text-[#999999] text-center py-8">File is too large to preview ({formatFileSize(entry.size!)}).</p>;
+  if (kind === 'image') {
+    return <img src={workspaceFileUrl(entry.path)} alt={entry.name} className="max-w-full max-h-[60vh] mx-auto rounded border border-[#E5E5E5]" />;
+  }
+  if (!loaded) return <p className="text-sm text-[#999999] text-center py-8">Loading...</p>;
+  if (loaded.error !== undefined) return <p className="text-sm text-red-600 text-center py-8">{loaded.error}</p>;
+
+  const text = loaded.text ?? '';
+  if (kind === 'markdown') return <Markdown source={text} />;
+  let shown = text;
+  let invalidJson = false;
+  if (kind === 'json') {
+    try {
+      shown = JSON.stringify(JSON.parse(text), null, 2);
+    } catch {
+      invalidJson = true;
+    }
+  }
+  return (
+    <div className="space-y-2">
+      {invalidJson && <p className="text-xs text-amber-600">Not valid JSON; showing the raw text.</p>}
+      <pre className="p-3 text-xs font-mono bg-[#FAFAFA] border border-[#E5E5E5] rounded-lg overflow-auto max-h-[60vh] whitespace-pre">{shown}</pre>
+    </div>
+  );
+}
+
+export function Workspace() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedPath = searchParams.get('path') ?? '';
+  // Directory listings by path; a directory is fetched the first time it is opened
+  const [listings, setListings] = useState<Record<string, WorkspaceEntry[]>>({});
+  // Directories the user opened or closed; otherwise the root and the selection's ancestors are open
+  const [toggled, setToggled] = useState<Record<string, boolean>>({});
+  const [renameDraft, setRenameDraft] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [notice, setNotice] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  // Bumped after an upload so a replaced file is previewed again
+  const [version, setVersion] = useState(0);
+  const requestedRef = useRef(new Set<string>());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const showNotice = (type: 'success' | 'error', text: string) => {
+    setNotice({ type, text });
+    setTimeout(() => setNotice(null), 3000);
+  };
+
+  const isOpen = useCallback(
+    (path: string) => toggled[path] ?? ancestorsOf(selectedPath).includes(path),
+    [toggled, selectedPath]
+  );
+
+  const loadDirectory = useCallback(async (path: string) => {
+    requestedRef.current.add(path);
+    try {
+      const entries = await listWorkspace(path);
+      setListings(prev => ({ ...prev, [path]: entries }));
+    } catch (error) {
+      console.error(`Failed to list ${path || 'workspace'}:`, error);
+      setNotice({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load the workspace' });
+    }
+  }, []);
+
+  // Fetch open directories that haven't been listed yet
+  useEffect(() => {
+    const wanted = new Set([...ancestorsOf(selectedPath), ...Object.keys(toggled).filter(path => toggled[path])]);
+    for (const path of wanted) {
+      if (isOpen(path) && !requestedRef.current.has(path)) loadDirectory(path);
+    }
+  }, [selectedPath, toggled, isOpen, loadDirectory]);
+
+  const selectedEntry = selectedPath
+    ? listings[parentPath(selectedPath)]?.find(e => e.path === selectedPath)
+    : ROOT_ENTRY;
+
+  const select = (path: string) => {
+    setSearchParams(path ? { path } : {});
+    setRenameDraft(null);
+    setConfirmDelete(false);
+  };
+
+  const handleEntryClick = (entry: WorkspaceEntry) => {
+    if (entry.type === 'directory') setToggled(prev => ({ ...prev, [entry.path]: !isOpen(entry.path) }));
+    select(entry.path);
+  };
+
+  // Drop cached listings under a path that moved or was deleted
+  const forget = (path: string) => {
+    setListings(prev => Object.fromEntries(Object.entries(prev).filter(([dir]) => dir !== path && !dir.startsWith(`${path}/`))));
+    for (const dir of [...requestedRef.current]) {
+      if (dir === path || dir.startsWith(`${path}/`)) requestedRef.current.delete(dir);
+    }
+  };
+
+  const run = async (action: () => Promise<void>, success: string, failure: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+      showNotice('success', success);
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      showNotice('error', error instanceof Error ? `${failure}: ${error.message}` : failure);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUpload = (files: File[]) => {
+    if (files.length === 0 || !selectedEntry) return;
+    const directory = selectedEntry.type === 'directory' ? selectedEntry.path : parentPath(selectedEntry.path);
+    run(async () => {
+      await uploadWorkspaceFiles(directory, files);
+      await loadDirectory(directory);
+      setToggled(prev => ({ ...prev, [directory]: true }));
+      setVersion(v => v + 1);
+    }, `Uploaded ${files.length} file${files.length === 1 ? '' : 's'}`, 'Upload failed');
+  };
+
+  const handleDownload = (entry: WorkspaceEntry) => {
+    const link = document.createElement('a');
+    link.href = workspaceFileUrl(entry.path, true);
+    link.download = entry.name;
+    link.click();
+  };
+
+  const handleRename = () => {
+    const name = renameDraft?.trim();
+    if (!selectedEntry || !selectedPath || !name || name === selectedEntry.name) return;
+    if (name.includes('/')) {
+      showNotice('error', 'Names cannot contain "/"');
+      return;
+    }
+    const newPath = joinPath(parentPath(selectedPath), name);
+    run(async () => {
+      await renameWorkspaceEntry(selectedPath, newPath);
+      forget(selectedPath);
+      await loadDirectory(parentPath(selectedPath));
+      select(newPath);
+    }, `Renamed to ${name}`, 'Rename failed');
+  };
+
+  const handleDelete = () => {
+    if (!selectedEntry || !selectedPath) return;
+    run(async () => {
+      await deleteWorkspaceEntry(selectedPath);
+      forget(selectedPath);
+      await loadDirectory(parentPath(selectedPath));
+      select(parentPath(selectedPath));
+    }, `Deleted ${selectedEntry.name}`, 'Delete failed');
+  };
+
+  const renderDirectory = (path: string, depth: number): React.ReactNode => {
+    const entries = listings[path];
+    if (!entries) return <li className="py-1 text-xs text-[#999999]" style={{ paddingLeft: depth * 16 + 8 }}>Loading...</li>;
+    if (entries.length === 0) return <li className="py-1 text-xs text-[#999999]" style={{ paddingLeft: depth * 16 + 8 }}>Empty</li>;
+    return entries.map(entry => (
+      <li key={entry.path}>
+        <button
+          onClick={() => handleEntryClick(entry)}
+          className={`w-full flex items-center gap-1.5 py-1 pr-2 rounded text-left text-sm truncate ${entry.path === selectedPath ? 'bg-[#E5E5E5] text-[#1A1A1A] font-medium' : 'text-[#444444] hover:bg-[#F5F5F5]'}`}
+          style={{ paddingLeft: depth * 16 + 8 }}
+          title={entry.path}
+        >
+          <span className="w-3 text-xs text-[#999999]">{entry.type === 'directory' ? (isOpen(entry.path) ? '▾' : '▸') : ''}</span>
+          <span>{entry.type === 'directory' ? '📁' : '📄'}</span>
+          <span className="truncate">{entry.name}</span>
+        </button>
+        {entry.type === 'directory' && isOpen(entry.path) && <ul>{renderDirectory(entry.path, depth + 1)}</ul>}
+      </li>
+    ));
+  };
+
+  return (
+    <div className="p-6 space-y-6 h-full overflow-y-auto">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-semibold text-[#1A1A1A] mb-1">Workspace</h1>
+          <p className="text-sm text-[#666666]">Files the agents work with in <code className="px-1 bg-[#F5F5F5] rounded">{WORKSPACE_ROOT}</code></p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              handleUpload(Array.from(e.target.files || []));
+              e.target.value = '';
+            }}
+          />
+          <Button variant="secondary" size="sm" onClick={() => Object.keys(listings).forEach(loadDirectory)}>Refresh</Button>
+          <Button size="sm" onClick={() => fileInputRef.current?.click()} disabled={isBusy || !selectedEntry}>Upload</Button>
+        </div>
+      </div>
+
+      {notice && (
+        <p className={`text-sm ${notice.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>{notice.text}</p>
+      )}
+
+      <div className="flex flex-col md:flex-row gap-4 items-start">
+        <Card className="w-full md:w-72 shrink-0 p-2 max-h-[70vh] overflow-y-auto">
+          <button
+            onClick={() => select('')}
+            className={`w-full px-2 py-1 rounded text-left text-xs font-mono truncate ${selectedPath === '' ? 'bg-[#E5E5E5] text-[#1A1A1A]' : 'text-[#666666] hover:bg-[#F5F5F5]'}`}
+          >
+            {WORKSPACE_ROOT}
+          </button>
+          <ul>{renderDirectory('', 0)}</ul>
+        </Card>
+
+        <Card className="flex-1 min-w-0 w-full space-y-4">
+          {!selectedEntry ? (
+            <p className="text-sm text-[#999999] text-center py-8">{listings[parentPath(selectedPath)] ? `${selectedPath} was not found in the workspace.` : 'Loading...'}</p>
+          ) : (
+            <>
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  {renameDraft !== null ? (
+                    <div className="flex gap-2">
+                      <Input
+                        value={renameDraft}
+                        onChange={(e) => setRenameDraft(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleRename();
+                          if (e.key === 'Escape') setRenameDraft(null);
+                        }}
+                        autoFocus
+                      />
+                      <Button size="sm" onClick={handleRename} disabled={isBusy || !renameDraft.trim()}>Save</Button>
+                      <Button size="sm" variant="secondary" onClick={() => setRenameDraft(null)}>Cancel</Button>
+                    </div>
+                  ) : (
+                    <h2 className="text-sm font-medium text-[#1A1A1A] break-all">{selectedEntry.path || WORKSPACE_ROOT}</h2>
+                  )}
+                  <p className="text-xs text-[#999999] mt-1">
+                    {selectedEntry.type === 'directory' ? 'Folder' : selectedEntry.size !== undefined ? formatFileSize(selectedEntry.size) : 'File'}
+                    {selectedEntry.modifiedAt && ` · Modified ${formatDate(selectedEntry.modifiedAt)}`}
+                  </p>
+                </div>
+                {selectedPath && renameDraft === null && (
+                  <div className="flex gap-1 shrink-0">
+                    {selectedEntry.type === 'file' && (
+                      <Button variant="ghost" size="sm" onClick={() => handleDownload(selectedEntry)}>Download</Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => setRenameDraft(selectedEntry.name)} disabled={isBusy}>Rename</Button>
+                    <Button variant="ghost" size="sm" onClick={() => setConfirmDelete(true)} disabled={isBusy} className="hover:text-[#DC2626]">Delete</Button>
+                  </div>
+                )}
+              </div>
+
+              {confirmDelete && (
+                <div className="flex items-center justify-between p-3 bg-red-50 rounded-lg">
+                  <span className="text-sm text-[#DC2626]">
+                    Delete "{selectedEntry.name}"{selectedEntry.type === 'directory' ? ' and everything in it' : ''}?
+                  </span>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="secondary" onClick={() => setConfirmDelete(false)}>Cancel</Button>
+                    <Button size="sm" variant="danger" onClick={handleDelete} disabled={isBusy}>Delete</Button>
+                  </div>
+                </div>
+              )}
+
+              {selectedEntry.type === 'directory' ? (
+                <p className="text-sm text-[#666666]">
+                  {listings[selectedEntry.path]
+                    ? `${listings[selectedEntry.path].length} item${listings[selectedEntry.path].length === 1 ? '' : 's'}. Uploads go into this folder.`
+                    : 'Open the folder in the tree to list its contents.'}
+                </p>
+              ) : (
+                <FilePreview key={`${selectedEntry.path}:${version}`} entry={selectedEntry} />
+              )}
+            </>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -5,12 +5,95 @@ export interface ToolCall {
   result?: string;
 }
 
+// Change a tool made to a file: the full texts before and after, a unified patch, or both
+export interface FileDiff {
+  path: string;
+  before?: string;
+  after?: string;
+  patch?: string;
+}
+
 export interface ProgressStep {
   tool: string | null;
   file: string | null;
   action: string | null;
   status: 'running' | 'completed' | 'error';
   content: string;
+  arguments?: Record<string, unknown>;
+  result?: string;
+  diff?: FileDiff;
+}
+
+// 'incomplete': the answer ended before the step reported back
+export type ToolStepStatus = ProgressStep['status'] | 'incomplete';
+
+// One tool execution in an answer's timeline, assembled from its progress events (see lib/toolTimeline.ts)
+export interface ToolStep {
+  id: string;
+  tool: string;
+  file: string | null;
+  action: string | null;
+  status: ToolStepStatus;
+  content: string; // latest progress text
+  startedAt: string; // ISO date
+  endedAt?: string;
+  arguments?: Record<string, unknown>;
+  result?: string;
+  diff?: FileDiff;
+}
+
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  thumbnail?: string; // small data URL preview for images; the file itself is not kept
+}
+
+// Token counts reported by the backend for one answer (summed over its model calls)
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number; // part of promptTokens served from the provider's prompt cache
+  model?: string; // e.g. "anthropic/claude-sonnet-4"
+}
+
+// A pinned message, listed in the session's pin strip and the Bookmarks panel
+export interface MessageBookmark {
+  note: string;
+  pinnedAt: string; // ISO date
+}
+
+// Part of an earlier message a user message replies to
+export interface MessageQuote {
+  messageId: string;
+  excerpt: string; // the selected text, or the whole message for a plain reply
+  author: string; // "You" or the answering agent, as shown on the source message
+}
+
+// Thumbs up/down on an assistant answer (see lib/feedback.ts)
+export interface MessageFeedback {
+  rating: 'up' | 'down';
+  reason?: string;
+  comment?: string;
+  createdAt: string; // ISO date
+}
+
+// What the model wrote while thinking, streamed before the answer (see lib/reasoning.ts)
+export interface MessageReasoning {
+  content: string;
+  durationMs?: number; // from the first reasoning text to the first answer text
+}
+
+// A user message waiting in its session's outbox until the backend can be reached (see lib/outbox.ts)
+export interface PendingMessage {
+  id: string;
+  content: string;
+  attachments?: Attachment[]; // files stay in lib/attachmentStore until the message is delivered
+  quote?: MessageQuote;
+  parentId?: string | null; // set for an edit-and-resend that branches off that message
+  queuedAt: string; // ISO date; the outbox is delivered oldest first
+  error?: string; // delivery failed for another reason than a missing backend; waits for Retry or Discard
 }
 
 export interface Message {
@@ -19,7 +102,25 @@ export interface Message {
   content: string;
   timestamp: Date;
   toolCalls?: ToolCall[];
+  toolSteps?: ToolStep[]; // assistant messages only, in execution order
+  attachments?: Attachment[];
   agentId?: string; // 多Agent模式下的agent标识
+  mentions?: string[]; // agents addressed with @id in a user message
+  stopped?: boolean; // generation was cancelled by the user; content is partial
+  interrupted?: boolean; // connection dropped and could not be resumed; content is partial
+  parentId?: string | null; // previous message in the conversation tree; null for the first one
+  usage?: TokenUsage; // assistant messages only
+  bookmark?: MessageBookmark;
+  feedback?: MessageFeedback;
+  quote?: MessageQuote; // user messages only
+  reasoning?: MessageReasoning; // assistant messages only
+}
+
+// A conversation with branches: every message links to its parent, and `selected`
+// records which child is shown at each branch point (see lib/messageTree.ts)
+export interface MessageTree {
+  nodes: Message[];
+  selected: Record<string, string>;
 }
 
 export interface ChatState {
@@ -31,3 +132,33 @@ export interface PoolStatus {
   queued: number;
   max_workers: number;
 }
+
+// The backend asks before running a risky tool call and waits for the decision (see lib/toolApproval.ts)
+export interface ApprovalRequest {
+  id: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  risk: 'low' | 'medium' | 'high';
+  reason?: string; // why the backend considers the call risky
+}
+
+// Typed events emitted by /api/chat/stream (see lib/chatStream.ts)
+type ChatStreamPayload =
+  | { type: 'thinking'; status: string }
+  | { type: 'reasoning'; content: string; agentId?: string }
+  | { type: 'progress'; content: string; step: ProgressStep | null }
+  | { type: 'message'; content: string }
+  | { type: 'content'; content: string }
+  | { type: 'agent_start'; agentId: string }
+  | { type: 'agent_progress'; agentId: string; content: string }
+  | { type: 'agent_done'; agentId: string; content: string; error?: string }
+  | { type: 'usage'; usage: TokenUsage; agentId?: string }
+  | { type: 'approval_request'; request: ApprovalRequest; agentId?: string }
+  | { type: 'done' }
+  | { type: 'all_done' }
+  | { type: 'error'; content: string }
+  | { type: 'text'; content: string }; // data that is not JSON
+
+export type ChatStreamEvent = ChatStreamPayload & { id?: string };
+
+export type ChatStreamEventType = ChatStreamEvent['type'];
@@ -17,6 +17,15 @@ export default defineConfig({
       '/api': {
         target: 'http://localhost:5173',
         changeOrigin: true,
+        // nanobot not running: answer 502 like a gateway would (Vite's own handler sends 500),
+        // so the chat outbox can tell a missing backend from an API error
+        configure: (proxy) => {
+          proxy.on('error', (_err, _req, res) => {
+            if ('writeHead' in res && !res.headersSent && !res.writableEnded) {
+              res.writeHead(502, { 'Content-Type': 'text/plain' }).end('Backend unreachable');
+            }
+          });
+        },
       },
     },
   },